@@ -5,14 +5,15 @@ const watch = process.argv.includes('--watch');
 
 async function main() {
     const ctx = await esbuild.context({
-        entryPoints: ['src/extension.ts'],
+        // The index worker runs in its own thread and is loaded by path from the extension bundle
+        entryPoints: ['src/extension.ts', 'src/indexWorker.ts'],
         bundle: true,
         format: 'cjs',
         minify: production,
         sourcemap: !production,
         sourcesContent: false,
         platform: 'node',
-        outfile: 'out/extension.js',
+        outdir: 'out',
         external: ['vscode'],
         logLevel: 'info',
         plugins: [
@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, SymbolDef, getShortName } from './indexer';
+import { NameResolver } from './nameResolver';
+import { ReferenceFinder, readText } from './referenceFinder';
+import { CallTarget, TypeInference, WalkContext, getNodeName, walkWithContext } from './typeInference';
+
+/**
+ * Keeps the call target with the item, VS Code hands the same instance back for incoming/outgoing calls.
+ */
+class PhpCallHierarchyItem extends vscode.CallHierarchyItem {
+    constructor(
+        public readonly target: CallTarget | undefined,
+        kind: vscode.SymbolKind,
+        name: string,
+        detail: string,
+        uri: vscode.Uri,
+        range: vscode.Range,
+        selectionRange: vscode.Range
+    ) {
+        super(kind, name, detail, uri, range, selectionRange);
+    }
+}
+
+function toRange(loc: any): vscode.Range {
+    return new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+function targetKey(target: CallTarget): string {
+    return target.kind === 'method' ? `${target.classFqn}::${target.name}` : target.fqn;
+}
+
+interface CallSites {
+    uri: vscode.Uri;
+    ast: any;
+    ranges: vscode.Range[]; // Ranges of the called name at each call
+}
+
+export class PhpCallHierarchyProvider implements vscode.CallHierarchyProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+    private referenceFinder: ReferenceFinder;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        this.typeInference = new TypeInference(indexer);
+        this.referenceFinder = new ReferenceFinder(indexer);
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+    }
+
+    public prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.CallHierarchyItem | undefined {
+        const ast = this.parse(document.getText(), document.uri.fsPath);
+        if (!ast) return undefined;
+
+        let item: vscode.CallHierarchyItem | undefined;
+        walkWithContext(ast, (node, context, resolver) => {
+            if (item) return;
+
+            // On a declaration
+            const callable = context.callable;
+            if ((node.kind === 'method' || node.kind === 'function') && node.name?.loc && callable && callable.node === node) {
+                if (toRange(node.name.loc).contains(position)) {
+                    item = this.createItem(callable.target, document.uri, toRange(node.loc), toRange(node.name.loc));
+                }
+                return;
+            }
+
+            // On a call
+            const nameLoc = this.getCallNameLoc(node);
+            if (nameLoc && toRange(nameLoc).contains(position)) {
+                const target = this.resolveCallTarget(node, context, resolver);
+                if (target) item = this.createItemFromIndex(target);
+            }
+        });
+
+        this.outputChannel.appendLine(`[CallHierarchy] Prepared: ${item ? item.detail + ' ' + item.name : 'nothing at cursor'}`);
+        return item;
+    }
+
+    public async provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CallHierarchyIncomingCall[]> {
+        const target = item instanceof PhpCallHierarchyItem ? item.target : undefined;
+        if (!target) return [];
+
+        // Call sites per file, then grouped by the method/function they are made from
+        const files = target.kind === 'method'
+            ? await this.findMethodCallSites(target, token)
+            : await this.findFunctionCallSites(target.fqn, token);
+
+        const incoming: vscode.CallHierarchyIncomingCall[] = [];
+        for (const { uri, ast, ranges } of files) {
+            if (token.isCancellationRequested) break;
+
+            const callers: { callable?: WalkContext['callable'], range: vscode.Range }[] = [];
+            walkWithContext(ast, (node, context) => {
+                if (context.callable?.node === node && node.loc) {
+                    callers.push({ callable: context.callable, range: toRange(node.loc) });
+                }
+            });
+
+            const groups = new Map<string, { item: vscode.CallHierarchyItem, ranges: vscode.Range[] }>();
+            for (const range of ranges) {
+                // Innermost enclosing method/function, or the file itself for top-level code
+                const caller = callers
+                    .filter(c => c.range.contains(range))
+                    .sort((a, b) => b.range.start.compareTo(a.range.start))[0];
+                const key = caller?.callable ? targetKey(caller.callable.target) : uri.toString();
+
+                let group = groups.get(key);
+                if (!group) {
+                    const callerItem = caller?.callable
+                        ? this.createItem(caller.callable.target, uri, caller.range, toRange(caller.callable.node.name.loc))
+                        : this.createFileItem(uri);
+                    group = { item: callerItem, ranges: [] };
+                    groups.set(key, group);
+                }
+                group.ranges.push(range);
+            }
+
+            for (const group of groups.values()) {
+                incoming.push(new vscode.CallHierarchyIncomingCall(group.item, group.ranges));
+            }
+        }
+        return incoming;
+    }
+
+    public async provideCallHierarchyOutgoingCalls(
+        item: vscode.CallHierarchyItem,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        const target = item instanceof PhpCallHierarchyItem ? item.target : undefined;
+        if (!target) return [];
+
+        let ast;
+        try {
+            const document = await vscode.workspace.openTextDocument(item.uri);
+            ast = this.parse(document.getText(), item.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+        if (!ast) return [];
+
+        // Every call made from the body of the method/function (closures included)
+        const key = targetKey(target);
+        const groups = new Map<string, { item: vscode.CallHierarchyItem, ranges: vscode.Range[] }>();
+        walkWithContext(ast, (node, context, resolver) => {
+            if (!context.callable || targetKey(context.callable.target) !== key) return;
+            const nameLoc = this.getCallNameLoc(node);
+            if (!nameLoc) return;
+
+            const callee = this.resolveCallTarget(node, context, resolver);
+            if (!callee) return;
+            const calleeKey = targetKey(callee);
+
+            let group = groups.get(calleeKey);
+            if (!group) {
+                const calleeItem = this.createItemFromIndex(callee);
+                if (!calleeItem) return; // Not indexed (builtin function, excluded vendor class...)
+                group = { item: calleeItem, ranges: [] };
+                groups.set(calleeKey, group);
+            }
+            group.ranges.push(toRange(nameLoc));
+        });
+
+        return Array.from(groups.values()).map(group => new vscode.CallHierarchyOutgoingCall(group.item, group.ranges));
+    }
+
+    private parse(content: string, fsPath: string): any {
+        try {
+            return this.parser.parseCode(content, fsPath);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * Location of the called name for function/method calls and `new` expressions.
+     */
+    private getCallNameLoc(node: any): any {
+        if (node.kind === 'new' && node.what?.kind === 'name') {
+            return node.what.loc;
+        }
+        if (node.kind !== 'call' || !node.what) return null;
+        if (node.what.kind === 'name') return node.what.loc;
+        if (['propertylookup', 'nullsafepropertylookup', 'staticlookup'].includes(node.what.kind) && node.what.offset?.kind === 'identifier') {
+            return node.what.offset.loc;
+        }
+        return null;
+    }
+
+    private resolveCallTarget(node: any, context: WalkContext, resolver: NameResolver): CallTarget | undefined {
+        // new Foo() calls the constructor
+        if (node.kind === 'new') {
+            const classFqn = resolver.resolveClassName(node.what.name, node.what.resolution);
+            return this.resolveMethodTarget(classFqn, '__construct');
+        }
+
+        const what = node.what;
+        if (what.kind === 'name') {
+            const fqn = resolver.resolveFunctionName(what.name, what.resolution);
+            // Unqualified calls fall back to the global function
+            if (this.indexer.getFunctionDefinitions(fqn).length === 0 && what.resolution === 'uqn') {
+                return { kind: 'function', fqn: what.name };
+            }
+            return { kind: 'function', fqn };
+        }
+
+        const methodName = getNodeName(what.offset);
+        if (!methodName) return undefined;
+
+        const classFqn = what.kind === 'staticlookup'
+            ? this.typeInference.resolveClassReference(what.what, context, resolver)
+            : this.typeInference.inferClassTypes(what.what, context, resolver, node.loc.start.offset)[0];
+
+        if (classFqn) {
+            return this.resolveMethodTarget(classFqn, methodName);
+        }
+
+        // Unknown receiver: only trust the name when a single class declares such a method
+        const candidates = this.indexer.getSymbolsByKind(['class', 'interface', 'trait', 'enum'])
+            .filter(def => def.fqn && this.indexer.getMethodDefinitions(`${def.fqn}::${methodName}`).length > 0);
+        return candidates.length === 1 ? { kind: 'method', classFqn: candidates[0].fqn!, name: methodName } : undefined;
+    }
+
+    /**
+     * Points the target at the class that actually declares the method (it may be inherited).
+     */
+    private resolveMethodTarget(classFqn: string, methodName: string): CallTarget | undefined {
+        const defs = this.indexer.findMethod(classFqn, methodName);
+        if (defs.length === 0) return undefined;
+        return { kind: 'method', classFqn: defs[0].parent || classFqn, name: methodName };
+    }
+
+    /**
+     * The calls Find All References finds: through the declaring class, its subtypes and the
+     * types overriding or implementing the same method.
+     */
+    private async findMethodCallSites(target: CallTarget & { kind: 'method' }, token: vscode.CancellationToken): Promise<CallSites[]> {
+        const references = await this.referenceFinder.findMemberReferences({ kind: 'method', classFqn: target.classFqn, name: target.name }, token);
+
+        const rangesByFile = new Map<string, { uri: vscode.Uri, ranges: vscode.Range[] }>();
+        for (const reference of references) {
+            if (reference.isDeclaration) continue;
+            const key = reference.uri.toString();
+            if (!rangesByFile.has(key)) rangesByFile.set(key, { uri: reference.uri, ranges: [] });
+            rangesByFile.get(key)!.ranges.push(reference.range);
+        }
+
+        const results: CallSites[] = [];
+        for (const { uri, ranges } of rangesByFile.values()) {
+            const text = await readText(uri);
+            const ast = text === undefined ? null : this.parse(text, uri.fsPath);
+            if (ast) results.push({ uri, ast, ranges });
+        }
+        return results;
+    }
+
+    /**
+     * Calls of the function in the files the index knows to call a function with its name.
+     */
+    private async findFunctionCallSites(fqn: string, token: vscode.CancellationToken): Promise<CallSites[]> {
+        const results: CallSites[] = [];
+        for (const uri of this.referenceFinder.getFunctionCallCandidateFiles(fqn)) {
+            if (token.isCancellationRequested) break;
+            try {
+                const text = await readText(uri);
+                const ast = text === undefined ? null : this.parse(text, uri.fsPath);
+                if (!ast) continue;
+
+                const ranges: vscode.Range[] = [];
+                walkWithContext(ast, (node, context, resolver) => {
+                    if (node.kind !== 'call' || node.what?.kind !== 'name') return;
+                    const callee = this.resolveCallTarget(node, context, resolver);
+                    if (callee && callee.kind === 'function' && callee.fqn === fqn) {
+                        ranges.push(toRange(node.what.loc));
+                    }
+                });
+                if (ranges.length > 0) {
+                    results.push({ uri, ast, ranges });
+                }
+            } catch (e) {
+                this.outputChannel.appendLine(`[CallHierarchy] Error processing ${uri.fsPath}: ${e}`);
+            }
+        }
+        return results;
+    }
+
+    private createItem(target: CallTarget, uri: vscode.Uri, range: vscode.Range, selectionRange: vscode.Range): vscode.CallHierarchyItem {
+        if (target.kind === 'method') {
+            const kind = target.name === '__construct' ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method;
+            return new PhpCallHierarchyItem(target, kind, target.name, target.classFqn, uri, range, selectionRange);
+        }
+        const namespace = target.fqn.includes('\\') ? target.fqn.substring(0, target.fqn.lastIndexOf('\\')) : '';
+        return new PhpCallHierarchyItem(target, vscode.SymbolKind.Function, getShortName(target.fqn), namespace, uri, range, selectionRange);
+    }
+
+    private createItemFromIndex(target: CallTarget): vscode.CallHierarchyItem | undefined {
+        const defs: SymbolDef[] = target.kind === 'method'
+            ? this.indexer.getMethodDefinitions(`${target.classFqn}::${target.name}`)
+            : this.indexer.getFunctionDefinitions(target.fqn);
+        const def = defs[0];
+        if (!def || !def.range) return undefined;
+
+        return this.createItem(target, vscode.Uri.file(def.path), def.range, def.range);
+    }
+
+    private createFileItem(uri: vscode.Uri): vscode.CallHierarchyItem {
+        const range = new vscode.Range(0, 0, 0, 0);
+        return new PhpCallHierarchyItem(undefined, vscode.SymbolKind.File, path.basename(uri.fsPath),
+            vscode.workspace.asRelativePath(uri), uri, range, range);
+    }
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { Indexer, SymbolDef } from './indexer';
+import { PhpImportCodeActions } from './importCodeActions';
+
+const TYPE_KINDS: SymbolDef['kind'][] = ['class', 'interface', 'trait', 'enum'];
+
+function toCompletionKind(kind: SymbolDef['kind']): vscode.CompletionItemKind {
+    switch (kind) {
+        case 'interface': return vscode.CompletionItemKind.Interface;
+        case 'enum': return vscode.CompletionItemKind.Enum;
+        case 'trait': return vscode.CompletionItemKind.Module;
+        default: return vscode.CompletionItemKind.Class;
+    }
+}
+
+/**
+ * Remembers what to import, the edits are only computed for the item that gets resolved.
+ */
+class PhpClassCompletionItem extends vscode.CompletionItem {
+    public importFqn?: string;
+    public document?: vscode.TextDocument;
+}
+
+function getNamespace(fqn: string): string {
+    return fqn.includes('\\') ? fqn.substring(0, fqn.lastIndexOf('\\')) : '';
+}
+
+/**
+ * Suggests indexed classes/interfaces/traits/enums by short name. Accepting one adds the
+ * `use` statement, unless the class is in the file's namespace or already imported.
+ */
+export class PhpClassCompletionProvider implements vscode.CompletionItemProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+    }
+
+    public provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.CompletionContext
+    ): vscode.CompletionItem[] {
+        const lineText = document.lineAt(position.line).text;
+        const linePrefix = lineText.substring(0, position.character);
+
+        // The (possibly qualified) name being typed
+        const typed = linePrefix.match(/\\?[A-Za-z_][\w\\]*$|\\$/);
+        if (!typed) return [];
+        const before = linePrefix.substring(0, linePrefix.length - typed[0].length);
+        // Members, variables and function declarations are not class names
+        if (/(?:->|::|\$|\bfunction\s+|\bconst\s+)$/.test(before) || /^\s*(?:namespace|<\?php)\b/.test(lineText)) return [];
+
+        const range = new vscode.Range(position.line, position.character - typed[0].length, position.line, position.character);
+        const isUseStatement = /^\s*use\s+$/.test(before);
+        const isQualified = typed[0].includes('\\');
+
+        const text = document.getText();
+        const namespaceMatch = text.match(/^\s*namespace\s+([\w\\]+)\s*[;{]/m);
+        const currentNamespace = namespaceMatch ? namespaceMatch[1] : '';
+
+        const firstChar = typed[0].replace(/^\\/, '')[0]?.toLowerCase();
+        const imports = PhpImportCodeActions.getClassImports(document);
+        const items: vscode.CompletionItem[] = [];
+
+        for (const def of this.indexer.getSymbolsByKind(TYPE_KINDS)) {
+            if (token.isCancellationRequested) return [];
+            const fqn = def.fqn || def.name;
+
+            const item = new PhpClassCompletionItem(
+                { label: def.name, description: getNamespace(fqn) },
+                toCompletionKind(def.kind)
+            );
+            item.detail = fqn;
+            item.range = range;
+
+            if (isUseStatement || isQualified) {
+                // Written out in full, matched against the FQN
+                const leadingSlash = typed[0].startsWith('\\') && !isUseStatement ? '\\' : '';
+                item.insertText = leadingSlash + fqn;
+                item.filterText = leadingSlash + fqn;
+            } else {
+                if (firstChar && def.name[0].toLowerCase() !== firstChar) continue;
+
+                const imported = imports.get(def.name.toLowerCase());
+                if (imported && imported.toLowerCase() !== fqn.toLowerCase()) {
+                    // Another class already owns the short name
+                    item.insertText = '\\' + fqn;
+                } else if (!imported && getNamespace(fqn) !== currentNamespace) {
+                    item.importFqn = fqn;
+                    item.document = document;
+                }
+                // Classes of the current namespace first
+                item.sortText = `${getNamespace(fqn) === currentNamespace ? 0 : 1}${def.name}`;
+            }
+            items.push(item);
+        }
+
+        this.outputChannel.appendLine(`[Completion] ${items.length} class suggestions for: ${typed[0]}`);
+        return items;
+    }
+
+    public resolveCompletionItem(item: vscode.CompletionItem, token: vscode.CancellationToken): vscode.CompletionItem {
+        if (item instanceof PhpClassCompletionItem && item.importFqn && item.document) {
+            item.additionalTextEdits = PhpImportCodeActions.getImportTextEdits(item.document, item.importFqn);
+        }
+        return item;
+    }
+}
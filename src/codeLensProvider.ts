@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, SymbolDef, getShortName } from './indexer';
+import { MemberTarget, ReferenceFinder } from './referenceFinder';
+import { getNodeName, walkWithContext } from './typeInference';
+
+type LensTarget =
+    { kind: 'class', fqn: string } |
+    { kind: 'method', classFqn: string, name: string };
+
+const TYPE_KINDS = ['class', 'interface', 'trait', 'enum'];
+
+function toRange(loc: any): vscode.Range {
+    return new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function toLocation(def: SymbolDef): vscode.Location {
+    return new vscode.Location(vscode.Uri.file(def.path), def.range || new vscode.Range(0, 0, 0, 0));
+}
+
+function toMemberTarget(target: LensTarget & { kind: 'method' }): MemberTarget {
+    return { kind: 'method', classFqn: target.classFqn, name: target.name };
+}
+
+/**
+ * The reference locations of a lens target, with the files they were searched in.
+ */
+interface CachedReferences {
+    target: LensTarget;
+    locations: vscode.Location[];
+    files: Set<string>;
+}
+
+/**
+ * The reference count is only computed when VS Code resolves the lens (it is visible).
+ */
+class PhpReferencesCodeLens extends vscode.CodeLens {
+    constructor(range: vscode.Range, public uri: vscode.Uri, public target: LensTarget) {
+        super(range);
+    }
+}
+
+/**
+ * Shows "N references | N implementations | overrides Base::handle" above classes,
+ * interfaces, traits, enums and methods. Clicking a lens opens the peek view.
+ */
+export class PhpCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private referenceFinder: ReferenceFinder;
+    // Reference locations by target, until one of the files they can be in is re-indexed
+    private referenceCache: Map<string, CachedReferences> = new Map();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private indexListener: vscode.Disposable;
+
+    public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+        this.referenceFinder = new ReferenceFinder(indexer);
+
+        this.indexListener = indexer.onDidChangeIndex(uri => {
+            this.invalidate(uri);
+            this.changeEmitter.fire();
+        });
+    }
+
+    public dispose() {
+        this.indexListener.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Drops the counts a re-indexed file can change: the ones searched in it, and the ones
+     * it is now a candidate for. A workspace scan (no file) drops everything.
+     */
+    private invalidate(uri: vscode.Uri | undefined) {
+        if (!uri) {
+            this.referenceCache.clear();
+            return;
+        }
+        const changed = uri.toString();
+        for (const [key, cached] of this.referenceCache) {
+            if (cached.files.has(changed) || this.getCandidateFiles(cached.target).some(file => file.toString() === changed)) {
+                this.referenceCache.delete(key);
+            }
+        }
+    }
+
+    private getCandidateFiles(target: LensTarget): vscode.Uri[] {
+        return target.kind === 'class'
+            ? this.referenceFinder.getClassCandidateFiles(target.fqn)
+            : this.referenceFinder.getMemberCandidateFiles(toMemberTarget(target));
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        walkWithContext(ast, (node, context) => {
+            if (!node.name?.loc || !context.classFqn) return;
+            const range = toRange(node.name.loc);
+
+            if (TYPE_KINDS.includes(node.kind)) {
+                const target: LensTarget = { kind: 'class', fqn: context.classFqn };
+                lenses.push(new PhpReferencesCodeLens(range, document.uri, target));
+                this.addImplementationsLens(lenses, range, document.uri, this.getClassImplementations(node.kind, context.classFqn));
+            } else if (node.kind === 'method') {
+                const name = getNodeName(node.name);
+                if (!name) return;
+                const target: LensTarget = { kind: 'method', classFqn: context.classFqn, name };
+                lenses.push(new PhpReferencesCodeLens(range, document.uri, target));
+                this.addImplementationsLens(lenses, range, document.uri, this.getMethodImplementations(context.classFqn, name));
+                this.addOverridesLens(lenses, range, document.uri, context.classFqn, name);
+            }
+        });
+        return lenses;
+    }
+
+    public async resolveCodeLens(lens: vscode.CodeLens, token: vscode.CancellationToken): Promise<vscode.CodeLens> {
+        if (!(lens instanceof PhpReferencesCodeLens)) return lens;
+
+        const target = lens.target;
+        const key = target.kind === 'class' ? target.fqn : `${target.classFqn}::${target.name}`;
+        let cached = this.referenceCache.get(key);
+        if (!cached) {
+            // Only the files the index lists for the target are read
+            const files = new Set(this.getCandidateFiles(target).map(file => file.toString()));
+            const references = target.kind === 'class'
+                ? await this.referenceFinder.findClassReferences(target.fqn, token)
+                : await this.referenceFinder.findMemberReferences(toMemberTarget(target), token);
+            const locations = references
+                .filter(reference => !reference.isDeclaration)
+                .map(reference => new vscode.Location(reference.uri, reference.range));
+            cached = { target, locations, files };
+            if (!token.isCancellationRequested) {
+                this.referenceCache.set(key, cached);
+            }
+            this.outputChannel.appendLine(`[CodeLens] ${key}: ${locations.length} references`);
+        }
+
+        lens.command = this.showReferencesCommand(plural(cached.locations.length, 'reference'), lens.uri, lens.range, cached.locations);
+        return lens;
+    }
+
+    /**
+     * Classes implementing an interface, or extending a class (directly or not).
+     */
+    private getClassImplementations(kind: string, fqn: string): SymbolDef[] {
+        if (kind === 'trait' || kind === 'enum') return [];
+        return this.indexer.getSubtypes(fqn)
+            .flatMap(subtype => this.indexer.getDefinitions(subtype))
+            .filter(def => kind !== 'interface' || def.kind !== 'interface');
+    }
+
+    /**
+     * Methods of subtypes (or of classes using the trait) declaring the method again.
+     */
+    private getMethodImplementations(classFqn: string, name: string): SymbolDef[] {
+        const users = this.indexer.getTraitUsers(classFqn);
+        const classes = [...this.indexer.getSubtypes(classFqn), ...users, ...users.flatMap(user => this.indexer.getSubtypes(user))];
+        return [...new Set(classes)].flatMap(fqn => this.indexer.getMethodDefinitions(`${fqn}::${name}`));
+    }
+
+    private addImplementationsLens(lenses: vscode.CodeLens[], range: vscode.Range, uri: vscode.Uri, implementations: SymbolDef[]) {
+        if (implementations.length === 0) return;
+        const lens = new vscode.CodeLens(range);
+        lens.command = this.showReferencesCommand(plural(implementations.length, 'implementation'), uri, range, implementations.map(toLocation));
+        lenses.push(lens);
+    }
+
+    /**
+     * The closest parent class, trait or interface declaring the method.
+     */
+    private addOverridesLens(lenses: vscode.CodeLens[], range: vscode.Range, uri: vscode.Uri, classFqn: string, name: string) {
+        for (const fqn of this.indexer.getMemberLookupOrder(classFqn).slice(1)) {
+            const defs = this.indexer.getMethodDefinitions(`${fqn}::${name}`);
+            if (defs.length === 0) continue;
+
+            const isInterface = this.indexer.getDefinitions(fqn)[0]?.kind === 'interface';
+            const title = `${isInterface ? 'implements' : 'overrides'} ${getShortName(fqn)}::${name}`;
+            const lens = new vscode.CodeLens(range);
+            lens.command = this.showReferencesCommand(title, uri, range, defs.map(toLocation));
+            lenses.push(lens);
+            return;
+        }
+    }
+
+    private showReferencesCommand(title: string, uri: vscode.Uri, range: vscode.Range, locations: vscode.Location[]): vscode.Command {
+        // Nothing to peek at: a command with an empty id is shown as a plain label
+        if (locations.length === 0) return { title, command: '' };
+        return {
+            title,
+            command: 'editor.action.showReferences',
+            arguments: [uri, range.start, locations]
+        };
+    }
+}
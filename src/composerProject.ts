@@ -0,0 +1,432 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+interface AutoloadSection {
+    "psr-4"?: { [prefix: string]: string | string[] };
+    "psr-0"?: { [prefix: string]: string | string[] };
+    classmap?: string[];
+    files?: string[];
+}
+
+interface ComposerJson {
+    autoload?: AutoloadSection;
+    "autoload-dev"?: AutoloadSection;
+    config?: { "vendor-dir"?: string };
+}
+
+interface InstalledPackage {
+    name: string;
+    version?: string;
+    "install-path"?: string; // Relative to vendor/composer (Composer 2)
+    autoload?: AutoloadSection;
+}
+
+/**
+ * A namespace prefix and one of the directories its classes live in.
+ */
+export interface NamespaceRoot {
+    prefix: string; // Without the trailing backslash, '' for the global namespace
+    directory: string; // Absolute
+    standard: 'psr-4' | 'psr-0';
+    packageName?: string; // For vendor packages
+}
+
+/**
+ * A package installed in vendor, from `vendor/composer/installed.json`.
+ */
+export interface ComposerPackage {
+    name: string;
+    version?: string;
+    installPath: string; // Absolute
+}
+
+// A string literal or one of the path variables of the generated autoload files, in a concatenation
+const PATH_TERM = String.raw`(?:\$vendorDir|\$baseDir|__DIR__|'(?:[^'\\]|\\.)*')`;
+const PATH_TERMS = new RegExp(PATH_TERM, 'g');
+const PATH_EXPRESSION = new RegExp(`${PATH_TERM}(?:\\s*\\.\\s*${PATH_TERM})*`, 'g');
+// `'Key\\' => array($vendorDir . '/a', ...),` or `'Key' => $baseDir . '/b.php',`
+const ENTRY_PATTERN = /'((?:[^'\\]|\\.)*)'\s*=>\s*(array\s*\([^)]*\)|\[[^\]]*\]|[^,\n]+)/g;
+
+function unescapePhpString(value: string): string {
+    return value.replace(/\\([\\'])/g, '$1');
+}
+
+/**
+ * Reads a map generated by `composer dump-autoload` (`autoload_psr4.php`,
+ * `autoload_classmap.php`...) without running PHP: keys to absolute paths.
+ */
+export function parseAutoloadMap(content: string, vendorDir: string, baseDir: string): Map<string, string[]> {
+    const variables: { [name: string]: string } = {
+        '$vendorDir': vendorDir,
+        '$baseDir': baseDir,
+        '__DIR__': path.join(vendorDir, 'composer')
+    };
+    const map = new Map<string, string[]>();
+
+    for (const entry of content.matchAll(ENTRY_PATTERN)) {
+        const paths = (entry[2].match(PATH_EXPRESSION) || []).map(expression =>
+            path.normalize((expression.match(PATH_TERMS) || []).map(term =>
+                variables[term] ?? unescapePhpString(term.slice(1, -1))
+            ).join('')));
+        if (paths.length > 0) {
+            map.set(unescapePhpString(entry[1]), paths);
+        }
+    }
+    return map;
+}
+
+// Force forward slashes for comparison standard
+const toUnix = (p: string) => p.split(path.sep).join('/');
+
+function isWithin(filePath: string, directory: string): boolean {
+    const relative = toUnix(path.relative(directory, filePath));
+    return relative === '' || (!relative.startsWith('../') && relative !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * What one read of a project's autoload configuration found. Built completely before it
+ * replaces the previous one, so a reload never exposes a half-read state.
+ */
+interface AutoloadData {
+    vendorDir: string;
+    namespaceRoots: NamespaceRoot[];
+    classmapPaths: string[];
+    autoloadFiles: string[];
+    // Map<FQN, FilePath> - From vendor/composer/autoload_classmap.php
+    classmap: Map<string, string>;
+    packages: ComposerPackage[];
+}
+
+function emptyAutoloadData(root: string): AutoloadData {
+    return { vendorDir: path.join(root, 'vendor'), namespaceRoots: [], classmapPaths: [], autoloadFiles: [], classmap: new Map(), packages: [] };
+}
+
+function findPackageForPath(packages: ComposerPackage[], filePath: string): ComposerPackage | undefined {
+    let best: ComposerPackage | undefined;
+    for (const pkg of packages) {
+        if (isWithin(filePath, pkg.installPath) && (!best || pkg.installPath.length > best.installPath.length)) {
+            best = pkg;
+        }
+    }
+    return best;
+}
+
+function addAutoloadSection(data: AutoloadData, section: AutoloadSection, baseDir: string, packageName?: string) {
+    for (const standard of ['psr-4', 'psr-0'] as const) {
+        for (const [prefix, paths] of Object.entries(section[standard] || {})) {
+            for (const p of Array.isArray(paths) ? paths : [paths]) {
+                addNamespaceRoot(data, { prefix: prefix.replace(/\\+$/, ''), directory: path.resolve(baseDir, p), standard, packageName });
+            }
+        }
+    }
+}
+
+function addNamespaceRoot(data: AutoloadData, root: NamespaceRoot) {
+    const exists = data.namespaceRoots.some(r => r.prefix === root.prefix && r.directory === root.directory && r.standard === root.standard);
+    if (!exists) data.namespaceRoots.push(root);
+}
+
+/**
+ * The autoload configuration of a Composer project (a directory with a `composer.json`),
+ * read once and kept until the file changes. Maps paths to namespaces and namespaces to
+ * the directories their classes are expected in.
+ */
+export class ComposerProject {
+    public readonly root: string;
+    private data: AutoloadData;
+    private loading?: Promise<void>;
+    private outputChannel?: vscode.OutputChannel;
+
+    constructor(root: string, outputChannel?: vscode.OutputChannel) {
+        this.root = root;
+        this.outputChannel = outputChannel;
+        this.data = emptyAutoloadData(root);
+    }
+
+    private log(message: string) {
+        this.outputChannel?.appendLine(`[Composer] ${message}`);
+    }
+
+    /**
+     * Reads `composer.json` and the autoload files Composer generated in vendor, unless they
+     * were already read since the last change.
+     */
+    public load(): Promise<void> {
+        if (!this.loading) {
+            // A read superseded by invalidate() while in flight is dropped
+            const loading: Promise<void> = this.read().then(data => {
+                if (this.loading === loading) this.data = data;
+            });
+            this.loading = loading;
+        }
+        return this.loading;
+    }
+
+    /**
+     * Forgets the autoload data, the files are read again on the next `load()`.
+     */
+    public invalidate() {
+        this.loading = undefined;
+    }
+
+    private async read(): Promise<AutoloadData> {
+        const data = emptyAutoloadData(this.root);
+
+        let composer: ComposerJson;
+        try {
+            composer = await fs.readJson(path.join(this.root, 'composer.json')) as ComposerJson;
+        } catch (e) {
+            this.log(`Error reading ${path.join(this.root, 'composer.json')}: ${e}`);
+            return data;
+        }
+
+        data.vendorDir = path.resolve(this.root, composer.config?.['vendor-dir'] || 'vendor');
+
+        // Merge autoload and autoload-dev
+        for (const section of [composer.autoload, composer['autoload-dev']]) {
+            if (!section) continue;
+            addAutoloadSection(data, section, this.root);
+            data.classmapPaths.push(...(section.classmap || []).map(p => path.resolve(this.root, p)));
+            data.autoloadFiles.push(...(section.files || []).map(p => path.resolve(this.root, p)));
+        }
+
+        await this.readInstalledPackages(data);
+        await this.readGeneratedAutoload(data);
+        return data;
+    }
+
+    /**
+     * Each package's install path and autoload roots, from `vendor/composer/installed.json`.
+     */
+    private async readInstalledPackages(data: AutoloadData) {
+        const installedPath = path.join(data.vendorDir, 'composer', 'installed.json');
+        if (!await fs.pathExists(installedPath)) return;
+
+        try {
+            const installed = await fs.readJson(installedPath);
+            // Composer 1 wrote a plain list, Composer 2 wraps it
+            const packages: InstalledPackage[] = Array.isArray(installed) ? installed : installed.packages || [];
+            for (const pkg of packages) {
+                const installPath = pkg['install-path']
+                    ? path.resolve(data.vendorDir, 'composer', pkg['install-path'])
+                    : path.join(data.vendorDir, ...pkg.name.split('/'));
+                data.packages.push({ name: pkg.name, version: pkg.version, installPath });
+                if (pkg.autoload) {
+                    addAutoloadSection(data, pkg.autoload, installPath, pkg.name);
+                }
+            }
+        } catch (e) {
+            this.log(`Error reading ${installedPath}: ${e}`);
+        }
+    }
+
+    /**
+     * The PSR-4 roots and class map `composer dump-autoload` generated, which also cover
+     * packages installed without an installed.json entry (path repositories, plugins...).
+     */
+    private async readGeneratedAutoload(data: AutoloadData) {
+        const composerDir = path.join(data.vendorDir, 'composer');
+        const read = async (file: string) => {
+            const filePath = path.join(composerDir, file);
+            if (!await fs.pathExists(filePath)) return new Map<string, string[]>();
+            try {
+                return parseAutoloadMap(await fs.readFile(filePath, 'utf8'), data.vendorDir, this.root);
+            } catch (e) {
+                this.log(`Error reading ${filePath}: ${e}`);
+                return new Map<string, string[]>();
+            }
+        };
+
+        for (const [prefix, directories] of await read('autoload_psr4.php')) {
+            for (const directory of directories) {
+                addNamespaceRoot(data, { prefix: prefix.replace(/\\+$/, ''), directory, standard: 'psr-4', packageName: findPackageForPath(data.packages, directory)?.name });
+            }
+        }
+        for (const [fqn, files] of await read('autoload_classmap.php')) {
+            data.classmap.set(fqn, files[0]);
+        }
+    }
+
+    public getVendorDir(): string {
+        return this.data.vendorDir;
+    }
+
+    public getPackages(): ComposerPackage[] {
+        return this.data.packages;
+    }
+
+    /**
+     * The vendor package a file or directory belongs to.
+     */
+    public getPackageForPath(filePath: string): ComposerPackage | undefined {
+        return findPackageForPath(this.data.packages, filePath);
+    }
+
+    /**
+     * Finds the file the autoloader would load the class from: the class map first, then
+     * the PSR-4/PSR-0 directories of its namespace (of the project and its packages).
+     */
+    public async findClassFile(fqn: string): Promise<string | undefined> {
+        const normalized = fqn.replace(/^\\/, '');
+        const mapped = this.data.classmap.get(normalized);
+        if (mapped) return mapped;
+
+        for (const candidate of this.getClassFileCandidates(normalized)) {
+            if (await fs.pathExists(candidate)) return candidate;
+        }
+        return undefined;
+    }
+
+    public getNamespaceRoots(): NamespaceRoot[] {
+        return this.data.namespaceRoots;
+    }
+
+    /**
+     * Files and directories listed under `classmap` (absolute), whose classes can be
+     * declared in any namespace.
+     */
+    public getClassmapPaths(): string[] {
+        return this.data.classmapPaths;
+    }
+
+    /**
+     * Files listed under `files` (absolute), loaded on every request.
+     */
+    public getAutoloadFiles(): string[] {
+        return this.data.autoloadFiles;
+    }
+
+    /**
+     * The namespace of a file at the given path: the deepest PSR-4 or PSR-0 directory
+     * containing it decides. Returns '' when no autoload root matches.
+     */
+    public getNamespaceForPath(filePath: string): string {
+        const directory = path.dirname(filePath);
+        let bestMatchNamespace = '';
+        let bestMatchLength = -1;
+
+        for (const root of this.data.namespaceRoots) {
+            if (!isWithin(directory, root.directory)) continue;
+            // PSR-4 roots win over PSR-0 ones for the same directory
+            const length = root.directory.length + (root.standard === 'psr-4' ? 0.5 : 0);
+            if (length <= bestMatchLength) continue;
+
+            const subPath = toUnix(path.relative(root.directory, directory));
+            const subNamespace = subPath ? subPath.split('/').join('\\') : '';
+
+            if (root.standard === 'psr-4') {
+                bestMatchNamespace = [root.prefix, subNamespace].filter(Boolean).join('\\');
+            } else {
+                // PSR-0 directories hold the whole namespace, which must start with the prefix
+                const prefix = root.prefix.replace(/_$/, '');
+                if (prefix && subNamespace !== prefix && !subNamespace.startsWith(prefix + '\\')) continue;
+                bestMatchNamespace = subNamespace;
+            }
+            bestMatchLength = length;
+        }
+        return bestMatchNamespace;
+    }
+
+    /**
+     * The directories classes of the namespace are expected in, most specific prefix first.
+     * They may not exist yet.
+     */
+    public getDirectoriesForNamespace(namespace: string): string[] {
+        const normalized = namespace.replace(/^\\+|\\+$/g, '');
+        const matches: { directory: string, prefixLength: number }[] = [];
+
+        for (const root of this.data.namespaceRoots) {
+            const prefix = root.standard === 'psr-0' ? root.prefix.replace(/_$/, '') : root.prefix;
+            if (prefix && normalized !== prefix && !normalized.startsWith(prefix + '\\')) continue;
+
+            // PSR-4 drops the prefix from the path, PSR-0 keeps the whole namespace
+            const rest = root.standard === 'psr-4' ? normalized.substring(prefix.length) : normalized;
+            const segments = rest.split('\\').filter(Boolean);
+            matches.push({ directory: path.join(root.directory, ...segments), prefixLength: prefix.length });
+        }
+
+        matches.sort((a, b) => b.prefixLength - a.prefixLength);
+        return Array.from(new Set(matches.map(match => match.directory)));
+    }
+
+    /**
+     * Where the autoloader would look for the class: `<directory>/<ShortName>.php` for each
+     * directory of its namespace.
+     */
+    public getClassFileCandidates(fqn: string): string[] {
+        const normalized = fqn.replace(/^\\/, '');
+        const separator = normalized.lastIndexOf('\\');
+        const namespace = separator === -1 ? '' : normalized.substring(0, separator);
+        const shortName = normalized.substring(separator + 1);
+        return this.getDirectoriesForNamespace(namespace).map(directory => path.join(directory, `${shortName}.php`));
+    }
+}
+
+// Map<ProjectRoot, ComposerProject> - Shared by every caller, reloaded by the watcher
+const projects: Map<string, ComposerProject> = new Map();
+// Where projects report files they cannot read, set once the watcher is started
+let projectsOutputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Finds the Composer project of a file: the closest directory with a `composer.json`,
+ * without leaving the file's workspace folder. Returns undefined outside the workspace or
+ * when there is no `composer.json`.
+ */
+export async function getComposerProject(filePath: string): Promise<ComposerProject | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!workspaceFolder) {
+        return undefined; // Not in workspace
+    }
+
+    const folderRoot = workspaceFolder.uri.fsPath;
+    let directory = path.dirname(filePath);
+    while (isWithin(directory, folderRoot)) {
+        const cached = projects.get(directory);
+        if (cached || await fs.pathExists(path.join(directory, 'composer.json'))) {
+            const project = cached || new ComposerProject(directory, projectsOutputChannel);
+            projects.set(directory, project);
+            await project.load();
+            return project;
+        }
+        if (directory === folderRoot) break;
+        directory = path.dirname(directory);
+    }
+    return undefined;
+}
+
+/**
+ * Reloads the autoload data of a project when its `composer.json` changes or Composer
+ * regenerates its autoload files (install, update, dump-autoload), and forgets projects
+ * whose `composer.json` is deleted.
+ */
+export function watchComposerProjects(outputChannel: vscode.OutputChannel): vscode.Disposable {
+    projectsOutputChannel = outputChannel;
+    const watcher = vscode.workspace.createFileSystemWatcher('**/composer.json');
+    const generatedWatcher = vscode.workspace.createFileSystemWatcher('**/composer/{autoload_psr4.php,autoload_classmap.php,installed.json}');
+
+    const invalidate = (project: ComposerProject | undefined) => {
+        if (project) {
+            outputChannel.appendLine(`[Composer] Reloading autoload configuration of ${project.root}`);
+            project.invalidate();
+        }
+    };
+
+    // New files need nothing: projects are looked up from the file up on every call
+    watcher.onDidChange(uri => invalidate(projects.get(path.dirname(uri.fsPath))));
+    watcher.onDidDelete(uri => {
+        outputChannel.appendLine(`[Composer] composer.json deleted: ${uri.fsPath}`);
+        projects.delete(path.dirname(uri.fsPath));
+    });
+
+    // The vendor directory can be configured, find the project it belongs to
+    const onGenerated = (uri: vscode.Uri) => {
+        const vendorDir = path.dirname(path.dirname(uri.fsPath));
+        invalidate(Array.from(projects.values()).find(project => project.getVendorDir() === vendorDir));
+    };
+    generatedWatcher.onDidCreate(onGenerated);
+    generatedWatcher.onDidChange(onGenerated);
+    generatedWatcher.onDidDelete(onGenerated);
+
+    return vscode.Disposable.from(watcher, generatedWatcher);
+}
@@ -23,7 +23,7 @@ export async function createPhpFile(uri: vscode.Uri, indexer: Indexer) {
 
     // 2. Ask Type
     const type = await vscode.window.showQuickPick(
-        ['Class', 'Interface', 'Trait', 'Abstract Class', 'Final Class'],
+        ['Class', 'Interface', 'Trait', 'Enum', 'Abstract Class', 'Final Class'],
         { placeHolder: 'Select file type' }
     );
     if (!type) return;
@@ -33,6 +33,14 @@ export async function createPhpFile(uri: vscode.Uri, indexer: Indexer) {
     if (!useStrictRaw) return;
     const useStrict = useStrictRaw === 'Yes';
 
+    // Backed enums need a scalar type for their case values
+    let backingType: string | undefined;
+    if (type === 'Enum') {
+        const pickedBacking = await vscode.window.showQuickPick(['None', 'string', 'int'], { placeHolder: 'Backing type' });
+        if (!pickedBacking) return;
+        if (pickedBacking !== 'None') backingType = pickedBacking;
+    }
+
     // 4. Extends / Implements
     let extendsDef: SymbolDef | undefined;
     let implementsDefs: SymbolDef[] = [];
@@ -71,6 +79,14 @@ export async function createPhpFile(uri: vscode.Uri, indexer: Indexer) {
         );
         if (pickedImplements) implementsDefs = pickedImplements.map(i => i.symbol);
     }
+    else if (type === 'Enum') {
+        // Enums cannot extend anything, but may implement interfaces
+        const pickedImplements = await vscode.window.showQuickPick<SymbolItem>(
+            toItems(allInterfaces),
+            { placeHolder: '(Optional) Implements: Select one or more', canPickMany: true }
+        );
+        if (pickedImplements) implementsDefs = pickedImplements.map(i => i.symbol);
+    }
     else if (type === 'Interface') {
         const pickedExtends = await vscode.window.showQuickPick<SymbolItem>(
             toItems(allInterfaces),
@@ -122,6 +138,10 @@ export async function createPhpFile(uri: vscode.Uri, indexer: Indexer) {
         if (implementsDefs.length > 0) content += ` extends ${implementsDefs.map(d => d.name).join(', ')}`;
     } else if (type === 'Trait') {
         content += `trait ${name}`;
+    } else if (type === 'Enum') {
+        content += `enum ${name}`;
+        if (backingType) content += `: ${backingType}`;
+        if (implementsDefs.length > 0) content += ` implements ${implementsDefs.map(d => d.name).join(', ')}`;
     } else {
         content += `class ${name}`;
         if (extendsDef) content += ` extends ${extendsDef.name}`;
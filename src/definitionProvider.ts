@@ -1,13 +1,28 @@
 import * as vscode from 'vscode';
-import { Indexer } from './indexer';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, MemberDef, SymbolDef } from './indexer';
+import { ReferenceFinder } from './referenceFinder';
+import { TypeInference, getNodeName, walkWithContext } from './typeInference';
+
+const LOOKUP_KINDS = ['propertylookup', 'nullsafepropertylookup', 'staticlookup'];
 
 export class PhpDefinitionProvider implements vscode.DefinitionProvider {
     private indexer: Indexer;
     private outputChannel: vscode.OutputChannel; // Log
+    private parser: any;
+    private typeInference: TypeInference;
+    private referenceFinder: ReferenceFinder;
 
     constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
         this.indexer = indexer;
         this.outputChannel = outputChannel;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+        this.referenceFinder = new ReferenceFinder(indexer);
     }
 
     public async provideDefinition(
@@ -32,38 +47,39 @@ export class PhpDefinitionProvider implements vscode.DefinitionProvider {
         if (isMethodCall) {
             this.outputChannel.appendLine(`[DefProvider] Detected method call context`);
 
-            // Try to find the class by looking backwards for the variable/class name
-            const beforeMethod = lineBeforeCursor.match(/(\$\w+|\w+)\s*(?:->|::)\s*$/);
-            if (beforeMethod) {
-                const classOrVar = beforeMethod[1];
-                this.outputChannel.appendLine(`[DefProvider] Looking for method ${word} in context of ${classOrVar}`);
-
-                // For now, search all class::method combinations
-                // A more sophisticated implementation would resolve the variable type
-                const allMethodKeys = Array.from(this.indexer['methods'].keys());
-                const matchingMethods = allMethodKeys.filter(key => key.endsWith(`::${word}`));
-
-                this.outputChannel.appendLine(`[DefProvider] Found ${matchingMethods.length} matching methods: ${matchingMethods.join(', ')}`);
-
-                const locations: vscode.Location[] = [];
-                for (const methodKey of matchingMethods) {
-                    const methodDefs = this.indexer.getMethodDefinitions(methodKey);
-                    for (const def of methodDefs) {
-                        this.outputChannel.appendLine(`[DefProvider] Adding method definition: ${def.path}`);
-                        const uri = vscode.Uri.file(def.path);
-                        const defRange = def.range || new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 0));
-                        locations.push(new vscode.Location(uri, defRange));
-                    }
-                }
-
-                if (locations.length > 0) {
-                    return locations;
-                }
+            // Resolve the receiver's type, so only that class's member (or the inherited one) is returned.
+            // A known type without the member has no definition
+            const typed = this.findTypedMemberDefinitions(document, position);
+            if (typed) {
+                this.outputChannel.appendLine(`[DefProvider] Resolved ${typed.definitions.length} definitions on ${typed.receivers.join(', ')}`);
+                return typed.definitions.map(def => new vscode.Location(vscode.Uri.file(def.path), def.range || new vscode.Range(0, 0, 0, 0)));
             }
+
+            // Unknown receiver type: only trust the name when a single class declares such a member.
+            // Properties ($obj->repo, self::$instance), class constants and enum cases (Status::Active) too
+            const isCall = /^\s*\(/.test(lineText.substring(range.end.character));
+            const isStatic = /::\s*$/.test(lineBeforeCursor);
+            const candidates: (SymbolDef | MemberDef)[] = isCall ? this.indexer.getMethodsByName(word)
+                : !isStatic || word.startsWith('$') ? this.indexer.getPropertiesByName(word)
+                : [...this.indexer.getClassConstantsByName(word), ...this.indexer.getEnumCasesByName(word)];
+            const classes = new Set(candidates.map(def => def.parent));
+
+            this.outputChannel.appendLine(`[DefProvider] Unknown receiver, ${word} is declared in ${classes.size} classes`);
+            if (classes.size !== 1) return [];
+            return candidates.map(def => new vscode.Location(vscode.Uri.file(def.path), def.range || new vscode.Range(0, 0, 0, 0)));
         }
 
-        // Fast Lookup via Indexer Definitions (for classes/interfaces/traits)
-        const definitions = this.indexer.getDefinitions(word);
+        // Classes/interfaces/traits/enums by the FQN the name resolves to. Classes that are not
+        // indexed (vendor packages) are loaded from where Composer would autoload them
+        const fqn = this.referenceFinder.findClassAt(document, position);
+        let definitions = fqn
+            ? await this.indexer.resolveClass(fqn, document.uri)
+            : this.indexer.getDefinitionsByShortName(word);
+
+        // Otherwise a function call or a global constant
+        if (definitions.length === 0) {
+            definitions = this.findFunctionOrConstantDefinitions(document, position);
+        }
         this.outputChannel.appendLine(`[DefProvider] Definitions found: ${definitions.length}`);
 
         if (definitions.length === 0) {
@@ -80,4 +96,85 @@ export class PhpDefinitionProvider implements vscode.DefinitionProvider {
 
         return locations;
     }
+
+    /**
+     * Finds the member accessed at the position (`$x->method()`, `$x->prop`, `Foo::CONST`,
+     * `self::$prop`) and looks it up on the inferred type of the receiver.
+     * Returns undefined when the receiver type is unknown (or the document does not parse), and
+     * the receiver types with the definitions found on them otherwise, possibly none.
+     */
+    private findTypedMemberDefinitions(document: vscode.TextDocument, position: vscode.Position): { receivers: string[], definitions: SymbolDef[] } | undefined {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+        let found = false;
+        let result: { receivers: string[], definitions: SymbolDef[] } | undefined;
+
+        walkWithContext(ast, (node, context, resolver) => {
+            if (found) return;
+
+            // Method calls are visited before their lookup node
+            const isCall = node.kind === 'call' && LOOKUP_KINDS.includes(node.what?.kind);
+            const lookup = isCall ? node.what : LOOKUP_KINDS.includes(node.kind) ? node : null;
+            if (!lookup || !containsOffset(lookup.offset?.loc)) return;
+
+            const name = getNodeName(lookup.offset);
+            if (!name) return;
+
+            found = true;
+            const receivers = lookup.kind === 'staticlookup'
+                ? [this.typeInference.resolveClassReference(lookup.what, context, resolver)].filter((fqn): fqn is string => !!fqn)
+                : this.typeInference.inferClassTypes(lookup.what, context, resolver, lookup.loc.start.offset);
+            if (receivers.length === 0) return;
+
+            // `Foo::$bar` is a static property, `Foo::BAR` a constant or enum case
+            const kind = isCall ? 'method'
+                : lookup.kind !== 'staticlookup' || lookup.offset.kind === 'variable' ? 'property'
+                : 'constant';
+            result = { receivers, definitions: this.typeInference.findMemberDefinitions(receivers, name, kind) };
+        });
+
+        return result;
+    }
+
+    /**
+     * Resolves the function called or the constant used at the position like PHP does: through
+     * `use function` / `use const` imports and the current namespace, then the global one for
+     * unqualified names.
+     */
+    private findFunctionOrConstantDefinitions(document: vscode.TextDocument, position: vscode.Position): SymbolDef[] {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+
+        const offset = document.offsetAt(position);
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+        let result: SymbolDef[] | undefined;
+
+        walkWithContext(ast, (node, context, resolver) => {
+            if (result) return;
+
+            // Calls are visited before their name node
+            if (node.kind === 'call' && node.what?.kind === 'name' && containsOffset(node.what.loc)) {
+                const fqn = resolver.resolveFunctionName(node.what.name, node.what.resolution);
+                const defs = this.indexer.getFunctionDefinitions(fqn);
+                result = defs.length > 0 || node.what.resolution !== 'uqn' ? defs : this.indexer.getFunctionDefinitions(node.what.name);
+            } else if (node.kind === 'name' && containsOffset(node.loc)) {
+                const fqn = resolver.resolveConstantName(node.name, node.resolution);
+                const defs = this.indexer.getConstantDefinitions(fqn);
+                result = defs.length > 0 || node.resolution !== 'uqn' ? defs : this.indexer.getConstantDefinitions(node.name);
+            }
+        });
+
+        return result || [];
+    }
 }
@@ -0,0 +1,109 @@
+/**
+ * Helpers for reading PHPDoc blocks from php-parser nodes (parsed with `extractDoc: true`).
+ * No vscode dependency, so the extractor can use them in the index worker.
+ */
+
+/**
+ * Returns the text of the `/** ... *\/` block right before a node, if any.
+ */
+export function getDocComment(node: any): string | undefined {
+    const comments = node && node.leadingComments;
+    if (!comments || comments.length === 0) return undefined;
+    const last = comments[comments.length - 1];
+    if (last.kind !== 'commentblock' || !last.value.startsWith('/**')) return undefined;
+    return last.value;
+}
+
+/**
+ * Reads the type of a `@var`, `@param` or `@return` tag. Generic types may contain spaces
+ * (`array<int, Foo>`), so the type runs until the first whitespace outside brackets.
+ *
+ * @param variable For `@param`: the parameter name, with or without `$`
+ */
+export function getDocTagType(doc: string, tag: 'var' | 'param' | 'return', variable?: string): string | undefined {
+    const wanted = variable ? (variable.startsWith('$') ? variable : '$' + variable) : undefined;
+    const tagPattern = new RegExp(`@(?:phpstan-|psalm-)?${tag}\\s+`, 'g');
+    let match;
+    let result: string | undefined;
+
+    while ((match = tagPattern.exec(doc)) !== null) {
+        const type = readType(doc, match.index + match[0].length);
+        if (!type || type.startsWith('$')) continue; // `@param $name` without a type
+
+        if (wanted) {
+            const rest = doc.substring(match.index + match[0].length + type.length).match(/^\s+(?:\.\.\.)?(\$\w+)/);
+            if (!rest || rest[1] !== wanted) continue;
+        }
+        // Prefer the tool-specific tags, which usually hold the more precise type
+        if (!result || /^@(?:phpstan|psalm)-/.test(match[0])) {
+            result = type;
+        }
+    }
+    return result;
+}
+
+function readType(text: string, start: number): string {
+    let depth = 0;
+    let end = start;
+    while (end < text.length) {
+        const char = text[end];
+        if (char === '<' || char === '(' || char === '{' || char === '[') depth++;
+        else if (char === '>' || char === ')' || char === '}' || char === ']') depth--;
+        else if (/\s/.test(char) && depth <= 0) {
+            // `callable(Foo): bool` goes on with the return type
+            if (!text.substring(start, end).endsWith('):')) break;
+            while (/[ \t]/.test(text[end + 1])) end++;
+        }
+        end++;
+    }
+    // `*/` can follow the type directly on single-line blocks
+    return text.substring(start, end).replace(/\*\/$/, '');
+}
+
+/**
+ * The free text of a docblock before its first tag (summary and description), with the
+ * comment markers stripped. Paragraph breaks are kept.
+ */
+export function getDocSummary(doc: string): string | undefined {
+    const lines = doc
+        .replace(/^\/\*\*/, '')
+        .replace(/\*\/$/, '')
+        .split(/\r?\n/)
+        .map(line => line.replace(/^\s*\*?\s?/, '').trimEnd());
+
+    const tagIndex = lines.findIndex(line => line.startsWith('@'));
+    const text = (tagIndex === -1 ? lines : lines.slice(0, tagIndex)).join('\n').trim();
+    return text || undefined;
+}
+
+// Tags whose first word is a type that can name classes
+const TYPE_TAGS = [
+    'var', 'param', 'return', 'throws', 'property', 'property-read', 'property-write', 'method', 'mixin',
+    'extends', 'implements', 'use', 'template-extends', 'template-implements', 'template-use'
+];
+
+/**
+ * Returns the types of the class-bearing tags of a docblock (`@param Foo|null $x`,
+ * `@throws Bar`, `@method static Baz create()`...) with their offsets in the block.
+ */
+export function getDocTypes(doc: string): { type: string, offset: number }[] {
+    const tagPattern = /@(?:phpstan-|psalm-)?([\w-]+)[ \t]+/g;
+    const types: { type: string, offset: number }[] = [];
+    let match;
+
+    while ((match = tagPattern.exec(doc)) !== null) {
+        if (!TYPE_TAGS.includes(match[1])) continue;
+        let start = match.index + match[0].length;
+        // `@method static Foo create()`: the return type follows the modifier
+        const modifier = match[1] === 'method' ? doc.substring(start).match(/^static[ \t]+(?=\S+[ \t]+\w+\s*\()/) : null;
+        if (modifier) start += modifier[0].length;
+
+        const type = readType(doc, start);
+        // `@method create()` has no return type
+        const isMethodName = match[1] === 'method' && /^\w+\(/.test(type);
+        if (type && !type.startsWith('$') && !isMethodName) {
+            types.push({ type, offset: start });
+        }
+    }
+    return types;
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { Indexer } from './indexer';
+import { ReferenceFinder, SymbolReference } from './referenceFinder';
+import { findVariableOccurrences } from './variableScope';
+
+function toRange(loc: any): vscode.Range {
+    return new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+function toHighlightKind(isWrite: boolean): vscode.DocumentHighlightKind {
+    return isWrite ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read;
+}
+
+/**
+ * Highlights the other occurrences in the file of the variable, class or member under the
+ * cursor. Variables follow PHP's scoping (closures only share what they `use`), classes
+ * and members are matched like Find All References.
+ */
+export class PhpDocumentHighlightProvider implements vscode.DocumentHighlightProvider {
+    private outputChannel: vscode.OutputChannel;
+    private referenceFinder: ReferenceFinder;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.referenceFinder = new ReferenceFinder(indexer);
+    }
+
+    public provideDocumentHighlights(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.DocumentHighlight[] {
+        const ast = this.referenceFinder.parseDocument(document);
+        if (!ast) return [];
+
+        const variables = findVariableOccurrences(ast, document.offsetAt(position));
+        if (variables) {
+            return variables.map(occurrence => new vscode.DocumentHighlight(toRange(occurrence.loc), toHighlightKind(occurrence.isWrite)));
+        }
+
+        let references: SymbolReference[] = [];
+        const classFqn = this.referenceFinder.findClassAt(document, position);
+        if (classFqn) {
+            references = this.referenceFinder.findClassReferencesInDocument(document, classFqn);
+        } else {
+            const member = this.referenceFinder.findMemberAt(document, position);
+            if (member) {
+                references = this.referenceFinder.findMemberReferencesInDocument(document, member);
+            }
+        }
+
+        if (references.length > 0) {
+            this.outputChannel.appendLine(`[Highlight] ${references.length} occurrences`);
+        }
+        return references.map(reference => new vscode.DocumentHighlight(reference.range, toHighlightKind(reference.kind === 'write')));
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { MemberRecord, SerializedRange, SymbolRecord, extractFileSymbols, toSerializedRange } from './symbolExtractor';
+
+function toRange(range?: SerializedRange): vscode.Range {
+    return range ? new vscode.Range(range[0], range[1], range[2], range[3]) : new vscode.Range(0, 0, 0, 0);
+}
+
+function getNamespace(fqn: string): string {
+    return fqn.includes('\\') ? fqn.substring(0, fqn.lastIndexOf('\\')) : '';
+}
+
+function toSymbolKind(record: SymbolRecord | MemberRecord): vscode.SymbolKind {
+    switch (record.kind) {
+        case 'interface': return vscode.SymbolKind.Interface;
+        case 'enum': return vscode.SymbolKind.Enum;
+        case 'trait': return vscode.SymbolKind.Module;
+        case 'method': return record.name.toLowerCase() === '__construct' ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method;
+        case 'function': return vscode.SymbolKind.Function;
+        case 'constant': return vscode.SymbolKind.Constant;
+        case 'enumCase': return vscode.SymbolKind.EnumMember;
+        case 'property': return vscode.SymbolKind.Property;
+        case 'classConstant': return vscode.SymbolKind.Constant;
+        default: return vscode.SymbolKind.Class;
+    }
+}
+
+/**
+ * Visibility and static markers, plus the declared type for properties.
+ */
+function getMemberDetail(record: SymbolRecord | MemberRecord): string {
+    const member = record as MemberRecord;
+    const modifiers: string[] = [record.visibility || 'public'];
+    if (record.isStatic && record.kind !== 'classConstant') modifiers.push('static');
+    if (member.isReadonly && record.kind === 'property') modifiers.push('readonly');
+
+    const type = member.type || member.docType;
+    return type ? `${modifiers.join(' ')}: ${type}` : modifiers.join(' ');
+}
+
+export class PhpDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    private parser: any;
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+    }
+
+    public provideDocumentSymbols(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): vscode.DocumentSymbol[] {
+        let ast: any;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+
+        // Same records the Indexer stores for this file, so the outline matches what navigation sees
+        const symbols = extractFileSymbols(ast);
+        const roots: vscode.DocumentSymbol[] = [];
+
+        const namespaces = new Map<string, vscode.DocumentSymbol>();
+        for (const node of ast.children || []) {
+            if (node.kind !== 'namespace' || !node.name || namespaces.has(node.name)) continue;
+            const range = toRange(toSerializedRange(node.loc));
+            const symbol = new vscode.DocumentSymbol(node.name, '', vscode.SymbolKind.Namespace, range, this.findNameRange(document, range, node.name));
+            namespaces.set(node.name, symbol);
+            roots.push(symbol);
+        }
+        const containerFor = (fqn: string) => namespaces.get(getNamespace(fqn))?.children || roots;
+
+        const types: { fqn: string, symbol: vscode.DocumentSymbol }[] = [];
+        for (const def of symbols.definitions) {
+            const fqn = def.fqn || def.name;
+            const symbol = this.createSymbol(document, def, def.backingType ? `: ${def.backingType}` : '');
+            types.push({ fqn, symbol });
+            containerFor(fqn).push(symbol);
+        }
+
+        for (const def of [...symbols.functions, ...symbols.constants]) {
+            containerFor(def.fqn || def.name).push(this.createSymbol(document, def, ''));
+        }
+
+        const members: (SymbolRecord | MemberRecord)[] = [...symbols.methods, ...symbols.members, ...symbols.enumCases];
+        for (const member of members) {
+            const symbol = this.createSymbol(document, member, member.kind === 'enumCase' ? '' : getMemberDetail(member));
+            // A class can be declared more than once in a file (e.g. conditionally), pick the enclosing one
+            const owners = types.filter(type => type.fqn === member.parent);
+            const owner = owners.find(type => type.symbol.range.contains(symbol.range)) || owners[0];
+            if (owner) {
+                owner.symbol.children.push(symbol);
+            }
+        }
+
+        for (const type of types) {
+            type.symbol.children.sort((a, b) => a.range.start.compareTo(b.range.start));
+        }
+        for (const container of [roots, ...Array.from(namespaces.values()).map(ns => ns.children)]) {
+            container.sort((a, b) => a.range.start.compareTo(b.range.start));
+        }
+
+        this.outputChannel.appendLine(`[DocumentSymbols] ${types.length} types in ${document.uri.fsPath}`);
+        return roots;
+    }
+
+    private createSymbol(document: vscode.TextDocument, record: SymbolRecord | MemberRecord, detail: string): vscode.DocumentSymbol {
+        const range = toRange(record.range);
+        const name = record.kind === 'property' ? '$' + record.name : record.name;
+        return new vscode.DocumentSymbol(name, detail, toSymbolKind(record), range, this.findNameRange(document, range, name));
+    }
+
+    /**
+     * Records only carry the range of the whole declaration, the name is the first
+     * occurrence of it inside that range.
+     */
+    private findNameRange(document: vscode.TextDocument, range: vscode.Range, name: string): vscode.Range {
+        const text = document.getText(range);
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = new RegExp(`(?<![\\w$\\\\])${escaped}(?![\\w\\\\])`).exec(text);
+        if (!match) return range;
+
+        const start = document.positionAt(document.offsetAt(range.start) + match.index);
+        return new vscode.Range(start, start.translate(0, name.length));
+    }
+}
@@ -8,12 +8,23 @@ import { createPhpFile } from './createFileCommand';
 import { moveFileWithRefactor } from './moveFileCommand';
 import { createRefactorEdit } from './refactorPreview';
 import { PhpReferenceProvider } from './referenceProvider';
+import { PhpDocumentHighlightProvider } from './documentHighlightProvider';
+import { PhpInlayHintsProvider } from './inlayHintsProvider';
+import { PhpCodeLensProvider } from './codeLensProvider';
 import { PhpImplementationProvider } from './implementationProvider';
+import { PhpTypeHierarchyProvider } from './typeHierarchyProvider';
+import { PhpCallHierarchyProvider } from './callHierarchyProvider';
+import { PhpWorkspaceSymbolProvider } from './workspaceSymbolProvider';
+import { PhpDocumentSymbolProvider } from './documentSymbolProvider';
+import { PhpTypeDefinitionProvider } from './typeDefinitionProvider';
+import { PhpHoverProvider } from './hoverProvider';
+import { PhpSignatureHelpProvider } from './signatureHelpProvider';
+import { PhpClassCompletionProvider } from './classCompletionProvider';
+import { PhpMemberCompletionProvider } from './memberCompletionProvider';
 import { PhpImportDiagnostics } from './importDiagnostics';
 import { PhpImportCodeActions } from './importCodeActions';
-import { PHPStanIntegration } from './phpstanIntegration';
-import { PHPCSIntegration } from './phpcsIntegration';
-import { PHPCSFixerIntegration } from './phpCsFixerIntegration';
+import { FolderToolsRegistry } from './folderTools';
+import { watchComposerProjects } from './composerProject';
 import { initializeWorkspaceConfig } from './workspaceConfig';
 import { PhpRefactorCodeActionProvider } from './refactorProvider';
 import { renameClassCommand } from './renameClassCommand';
@@ -24,22 +35,19 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.showInformationMessage('PHP Refactor Tools Active');
 
     const outputChannel = vscode.window.createOutputChannel("PHP Refactor Tools");
-    const indexer = new Indexer(outputChannel);
+    // Persist the index in the workspace storage so unchanged files are not re-parsed on the next startup
+    const indexer = new Indexer(outputChannel, context.storageUri?.fsPath);
+    context.subscriptions.push({ dispose: () => { indexer.saveCache(); } });
 
     const config = vscode.workspace.getConfiguration('phpRefactorTools');
 
     // Initialize Import Diagnostics
     const importDiagnostics = new PhpImportDiagnostics(indexer);
 
-    // Initialize PHPStan Integration
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-    const phpstan = new PHPStanIntegration(workspaceRoot, outputChannel);
-
-    // Initialize PHPCS Integration
-    const phpcs = new PHPCSIntegration(workspaceRoot, outputChannel);
-
-    // Initialize PHP-CS-Fixer Integration
-    const phpCsFixer = new PHPCSFixerIntegration(workspaceRoot, outputChannel);
+    // Initialize PHPStan, PHPCS and PHP-CS-Fixer Integrations, per workspace folder
+    const tools = new FolderToolsRegistry(outputChannel);
+    (vscode.workspace.workspaceFolders || []).forEach(folder => tools.addFolder(folder));
+    context.subscriptions.push(tools);
 
     // Start background indexing
     outputChannel.appendLine('[Extension] Starting workspace scan...');
@@ -60,39 +68,52 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showErrorMessage(`PHP Refactor Tools: Indexing failed on startup. check 'PHP Refactor Tools' output for details.`);
         });
 
+    // Keep workspace folders in sync: each one has its own index partition and tools
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(async e => {
+        for (const folder of e.removed) {
+            tools.removeFolder(folder);
+            indexer.removeFolder(folder);
+        }
+        for (const folder of e.added) {
+            tools.addFolder(folder);
+            await indexer.scanFolder(folder);
+        }
+    }));
+
     // Keep index updated and run tools on save
-    let phpstanTimeout: NodeJS.Timeout | undefined;
-    let phpcsTimeout: NodeJS.Timeout | undefined;
+    // Debounce timers by workspace folder, so saves in one project do not cancel another's run
+    const phpstanTimeouts = new Map<string, NodeJS.Timeout>();
+    const phpcsTimeouts = new Map<string, NodeJS.Timeout>();
     context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(async doc => {
         if (doc.languageId === 'php') {
             indexer.scanFile(doc.uri);
             importDiagnostics.updateDiagnostics(doc);
 
+            const folderTools = tools.get(doc.uri);
+            if (!folderTools) return;
+            const folderKey = folderTools.folder.uri.toString();
+            // Settings can differ between the folders of a multi-root workspace
+            const folderConfig = vscode.workspace.getConfiguration('phpRefactorTools', doc.uri);
+
             // Run PHPStan with debouncing
-            // Run PHPStan with debouncing
-            if (config.get('phpstan.enabled', false) && phpstan.isAvailable()) {
-                if (phpstanTimeout) {
-                    clearTimeout(phpstanTimeout);
-                }
-                phpstanTimeout = setTimeout(async () => {
-                    await phpstan.analyzeFile(doc.uri.fsPath);
-                }, 1000);
+            if (folderConfig.get('phpstan.enabled', false) && folderTools.phpstan.isAvailable()) {
+                clearTimeout(phpstanTimeouts.get(folderKey));
+                phpstanTimeouts.set(folderKey, setTimeout(async () => {
+                    await folderTools.phpstan.analyzeFile(doc.uri.fsPath);
+                }, 1000));
             }
 
             // Run PHPCS with debouncing
-            // Run PHPCS with debouncing
-            if (config.get('phpcs.enabled', false) && phpcs.isAvailable()) {
-                if (phpcsTimeout) {
-                    clearTimeout(phpcsTimeout);
-                }
-                phpcsTimeout = setTimeout(async () => {
-                    await phpcs.analyzeFile(doc.uri.fsPath);
-                }, 1000);
+            if (folderConfig.get('phpcs.enabled', false) && folderTools.phpcs.isAvailable()) {
+                clearTimeout(phpcsTimeouts.get(folderKey));
+                phpcsTimeouts.set(folderKey, setTimeout(async () => {
+                    await folderTools.phpcs.analyzeFile(doc.uri.fsPath);
+                }, 1000));
             }
 
             // Run PHP-CS-Fixer on save if enabled
-            if (config.get('phpCsFixer.enabled', false) && config.get('phpCsFixer.onSave', false) && phpCsFixer.isAvailable()) {
-                await phpCsFixer.fixFile(doc.uri.fsPath);
+            if (folderConfig.get('phpCsFixer.enabled', false) && folderConfig.get('phpCsFixer.onSave', false) && folderTools.phpCsFixer.isAvailable()) {
+                await folderTools.phpCsFixer.fixFile(doc.uri.fsPath);
             }
         }
     }));
@@ -136,6 +157,9 @@ export function activate(context: vscode.ExtensionContext) {
         indexer.scanFile(uri);
     });
 
+    // Reload Composer autoload configurations (PSR-4 namespaces) when composer.json changes
+    context.subscriptions.push(watchComposerProjects(outputChannel));
+
     // Clear diagnostics when closing a file
     context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(doc => {
         if (doc.languageId === 'php') {
@@ -258,6 +282,38 @@ export function activate(context: vscode.ExtensionContext) {
         );
     }
 
+    // Register Document Highlight Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerDocumentHighlightProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpDocumentHighlightProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Inlay Hints Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerInlayHintsProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpInlayHintsProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Code Lens Provider
+    if (config.get('navigation.enabled', false) && config.get('navigation.codeLens', true)) {
+        const codeLensProvider = new PhpCodeLensProvider(indexer, outputChannel);
+        context.subscriptions.push(
+            codeLensProvider,
+            vscode.languages.registerCodeLensProvider(
+                { scheme: 'file', language: 'php' },
+                codeLensProvider
+            )
+        );
+    }
+
     // Register Implementation Provider
     if (config.get('navigation.enabled', false)) {
         context.subscriptions.push(
@@ -268,6 +324,98 @@ export function activate(context: vscode.ExtensionContext) {
         );
     }
 
+    // Register Type Definition Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerTypeDefinitionProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpTypeDefinitionProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Hover Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerHoverProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpHoverProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Signature Help Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerSignatureHelpProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpSignatureHelpProvider(indexer, outputChannel),
+                { triggerCharacters: ['(', ','], retriggerCharacters: [','] }
+            )
+        );
+    }
+
+    // Register Class Name Completion (with auto-import)
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpClassCompletionProvider(indexer, outputChannel),
+                '\\'
+            )
+        );
+    }
+
+    // Register Member Completion (after -> and ::)
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpMemberCompletionProvider(indexer, outputChannel),
+                '>', ':'
+            )
+        );
+    }
+
+    // Register Type Hierarchy Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerTypeHierarchyProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpTypeHierarchyProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Call Hierarchy Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerCallHierarchyProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpCallHierarchyProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Workspace Symbol Provider
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerWorkspaceSymbolProvider(
+                new PhpWorkspaceSymbolProvider(indexer, outputChannel)
+            )
+        );
+    }
+
+    // Register Document Symbol Provider (Outline, Breadcrumbs, Go to Symbol in File)
+    if (config.get('navigation.enabled', false)) {
+        context.subscriptions.push(
+            vscode.languages.registerDocumentSymbolProvider(
+                { scheme: 'file', language: 'php' },
+                new PhpDocumentSymbolProvider(outputChannel)
+            )
+        );
+    }
+
     // Register Create File Wizard
     context.subscriptions.push(
         vscode.commands.registerCommand('vs-php-refactor-tools.createPhpFile', async (uri: vscode.Uri) => {
@@ -282,27 +430,21 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Register PHP-CS-Fixer as Document Formatter
-    context.subscriptions.push(
-        vscode.languages.registerDocumentFormattingEditProvider(
-            { scheme: 'file', language: 'php' },
-            phpCsFixer
-        )
-    );
-
     // Register PHPStan Commands
     context.subscriptions.push(
         vscode.commands.registerCommand('vs-php-refactor-tools.runPhpstan', async () => {
             const editor = vscode.window.activeTextEditor;
             if (editor && editor.document.languageId === 'php') {
-                await phpstan.analyzeFile(editor.document.uri.fsPath);
+                await tools.get(editor.document.uri)?.phpstan.analyzeFile(editor.document.uri.fsPath);
             }
         })
     );
 
     context.subscriptions.push(
         vscode.commands.registerCommand('vs-php-refactor-tools.runPhpstanWorkspace', async () => {
-            await phpstan.analyzeWorkspace();
+            for (const folderTools of tools.getAll()) {
+                await folderTools.phpstan.analyzeWorkspace();
+            }
         })
     );
 
@@ -313,23 +455,29 @@ export function activate(context: vscode.ExtensionContext) {
         // Indexer
         const stats = indexer.getStats();
         outputChannel.appendLine(`[Indexer] Files: ${stats.files}, Symbols: ${stats.symbols}`);
+        const folderStats = indexer.getFolderStats();
 
-        // PHPStan
-        outputChannel.appendLine(`[PHPStan] Available: ${phpstan.isAvailable() ? 'YES' : 'NO'}`);
-        if (!phpstan.isAvailable()) {
-            outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev phpstan/phpstan' or ensure 'php' is in PATH`);
-        }
+        for (const { folder, phpstan, phpcs, phpCsFixer } of tools.getAll()) {
+            outputChannel.appendLine(`\n[Folder] ${folder.name} (${folder.uri.fsPath})`);
+            outputChannel.appendLine(`[Indexer] Files: ${folderStats.get(folder.uri.toString()) || 0}`);
 
-        // PHPCS
-        outputChannel.appendLine(`[PHPCS] Available: ${phpcs.isAvailable() ? 'YES' : 'NO'}`);
-        if (!phpcs.isAvailable()) {
-            outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev squizlabs/php_codesniffer'`);
-        }
+            // PHPStan
+            outputChannel.appendLine(`[PHPStan] Available: ${phpstan.isAvailable() ? 'YES' : 'NO'}`);
+            if (!phpstan.isAvailable()) {
+                outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev phpstan/phpstan' or ensure 'php' is in PATH`);
+            }
 
-        // PHP-CS-Fixer
-        outputChannel.appendLine(`[PHP-CS-Fixer] Available: ${phpCsFixer.isAvailable() ? 'YES' : 'NO'}`);
-        if (!phpCsFixer.isAvailable()) {
-            outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev friendsofphp/php-cs-fixer'`);
+            // PHPCS
+            outputChannel.appendLine(`[PHPCS] Available: ${phpcs.isAvailable() ? 'YES' : 'NO'}`);
+            if (!phpcs.isAvailable()) {
+                outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev squizlabs/php_codesniffer'`);
+            }
+
+            // PHP-CS-Fixer
+            outputChannel.appendLine(`[PHP-CS-Fixer] Available: ${phpCsFixer.isAvailable() ? 'YES' : 'NO'}`);
+            if (!phpCsFixer.isAvailable()) {
+                outputChannel.appendLine(`   -> Hint: Install via 'composer require --dev friendsofphp/php-cs-fixer'`);
+            }
         }
 
         outputChannel.appendLine('-----------------------------------');
@@ -341,7 +489,7 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('vs-php-refactor-tools.runPhpcs', async () => {
             const editor = vscode.window.activeTextEditor;
             if (editor && editor.document.languageId === 'php') {
-                await phpcs.analyzeFile(editor.document.uri.fsPath);
+                await tools.get(editor.document.uri)?.phpcs.analyzeFile(editor.document.uri.fsPath);
             }
         })
     );
@@ -350,7 +498,8 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('vs-php-refactor-tools.runPhpCsFixer', async () => {
             const editor = vscode.window.activeTextEditor;
-            if (editor && editor.document.languageId === 'php') {
+            const phpCsFixer = editor && tools.get(editor.document.uri)?.phpCsFixer;
+            if (editor && phpCsFixer && editor.document.languageId === 'php') {
                 await phpCsFixer.fixFile(editor.document.uri.fsPath);
                 vscode.window.showInformationMessage('PHP-CS-Fixer: File fixed');
             }
@@ -377,13 +526,29 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('vs-php-refactor-tools.inspectIndex', async () => {
             const query = await vscode.window.showInputBox({
-                placeHolder: 'Enter class name (e.g. Request)',
+                placeHolder: 'Enter class, function or constant name or FQN (e.g. Request)',
                 prompt: 'Search for symbol in PHP Refactor Tools index'
             });
 
             if (!query) return;
 
-            const definitions = indexer.getDefinitions(query);
+            // Accept either a FQN or a short name, of a class-like, function or constant
+            const definitions = [
+                ...indexer.getDefinitions(query),
+                ...indexer.getFunctionDefinitions(query),
+                ...indexer.getConstantDefinitions(query)
+            ];
+            if (definitions.length === 0) {
+                // A vendor class not indexed yet is loaded from the Composer autoload maps
+                definitions.push(...await indexer.resolveClass(query));
+            }
+            if (definitions.length === 0) {
+                definitions.push(
+                    ...indexer.getDefinitionsByShortName(query),
+                    ...indexer.getFunctionsByShortName(query),
+                    ...indexer.getConstantsByShortName(query)
+                );
+            }
             outputChannel.clear();
             outputChannel.show();
             outputChannel.appendLine(`--- Index Inspection: ${query} ---`);
@@ -403,13 +568,12 @@ export function activate(context: vscode.ExtensionContext) {
                 outputChannel.appendLine(`    FQN:  ${def.fqn || '⚠️ MISSING'}`);
                 outputChannel.appendLine(`    Path: ${def.path}`);
                 outputChannel.appendLine(`    Kind: ${def.kind}`);
+                if (def.backingType) {
+                    outputChannel.appendLine(`    Backing type: ${def.backingType}`);
+                }
             });
         })
     );
-
-    // Dispose diagnostic collections on deactivation
-    context.subscriptions.push(phpstan.getDiagnosticCollection());
-    context.subscriptions.push(phpcs.getDiagnosticCollection());
 }
 
 export function deactivate() { }
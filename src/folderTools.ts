@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { PHPStanIntegration } from './phpstanIntegration';
+import { PHPCSIntegration } from './phpcsIntegration';
+import { PHPCSFixerIntegration } from './phpCsFixerIntegration';
+
+/**
+ * The tool integrations of one workspace folder: each folder of a multi-root workspace
+ * is usually its own Composer project, with its own `vendor/bin` and config files.
+ */
+export interface FolderTools {
+    folder: vscode.WorkspaceFolder;
+    phpstan: PHPStanIntegration;
+    phpcs: PHPCSIntegration;
+    phpCsFixer: PHPCSFixerIntegration;
+}
+
+/**
+ * Creates and disposes the integrations of each workspace folder as folders are added
+ * and removed, and finds the ones a file belongs to.
+ */
+export class FolderToolsRegistry implements vscode.Disposable {
+    private outputChannel: vscode.OutputChannel;
+    // Keyed by folder URI
+    private tools: Map<string, FolderTools> = new Map();
+    private registrations: Map<string, vscode.Disposable[]> = new Map();
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    public addFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        if (this.tools.has(key)) return;
+
+        this.outputChannel.appendLine(`[Tools] Detecting tools for folder: ${folder.name}`);
+        const root = folder.uri.fsPath;
+        const tools: FolderTools = {
+            folder,
+            phpstan: new PHPStanIntegration(root, this.outputChannel),
+            phpcs: new PHPCSIntegration(root, this.outputChannel),
+            phpCsFixer: new PHPCSFixerIntegration(root, this.outputChannel)
+        };
+        this.tools.set(key, tools);
+
+        // Files of the folder are formatted with the folder's own PHP-CS-Fixer
+        this.registrations.set(key, [
+            vscode.languages.registerDocumentFormattingEditProvider(
+                { scheme: 'file', language: 'php', pattern: new vscode.RelativePattern(folder, '**/*') },
+                tools.phpCsFixer
+            )
+        ]);
+    }
+
+    public removeFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        const tools = this.tools.get(key);
+        if (!tools) return;
+
+        this.outputChannel.appendLine(`[Tools] Removing tools for folder: ${folder.name}`);
+        this.disposeTools(tools);
+        this.registrations.get(key)?.forEach(registration => registration.dispose());
+        this.tools.delete(key);
+        this.registrations.delete(key);
+    }
+
+    /**
+     * The integrations of the folder containing the file, if it is in the workspace.
+     */
+    public get(uri: vscode.Uri): FolderTools | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.tools.get(folder.uri.toString()) : undefined;
+    }
+
+    public getAll(): FolderTools[] {
+        return Array.from(this.tools.values());
+    }
+
+    public dispose() {
+        for (const tools of this.tools.values()) {
+            this.disposeTools(tools);
+        }
+        for (const registrations of this.registrations.values()) {
+            registrations.forEach(registration => registration.dispose());
+        }
+        this.tools.clear();
+        this.registrations.clear();
+    }
+
+    private disposeTools(tools: FolderTools) {
+        tools.phpstan.dispose();
+        tools.phpcs.dispose();
+        tools.phpCsFixer.dispose();
+    }
+}
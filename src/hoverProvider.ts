@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, MemberDef, SymbolDef } from './indexer';
+import { walkClassNames } from './nameResolver';
+import { formatFunctionSignature, formatMemberSignature, formatType } from './signature';
+import { TypeInference, getNodeName, walkWithContext } from './typeInference';
+
+type HoverTarget =
+    { kind: 'class', fqn: string } |
+    { kind: 'symbol', defs: SymbolDef[], receivers?: string[] };
+
+const LOOKUP_KINDS = ['propertylookup', 'nullsafepropertylookup', 'staticlookup'];
+
+function toRange(loc: any): vscode.Range {
+    return new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+export class PhpHoverProvider implements vscode.HoverProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    public async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const text = document.getText();
+        let ast;
+        try {
+            ast = this.parser.parseCode(text, document.uri.fsPath);
+        } catch (e) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        const found = this.findTargetAt(ast, text, offset);
+        if (!found) return undefined;
+
+        // Vendor classes may not be indexed yet
+        if (found.target.kind === 'class') {
+            await this.indexer.resolveClass(found.target.fqn, document.uri);
+        }
+
+        const contents = found.target.kind === 'class'
+            ? this.renderClass(found.target.fqn)
+            : this.renderSymbols(found.target.defs, found.target.receivers);
+        if (!contents) return undefined;
+
+        this.outputChannel.appendLine(`[Hover] ${document.getText(toRange(found.loc))}`);
+        return new vscode.Hover(contents, toRange(found.loc));
+    }
+
+    /**
+     * The symbol named at the offset: class names anywhere, declarations, calls, member
+     * accesses (resolved through the receiver's type) and global constants.
+     */
+    private findTargetAt(ast: any, text: string, offset: number): { target: HoverTarget, loc: any } | undefined {
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+
+        let found: { target: HoverTarget, loc: any } | undefined;
+        walkClassNames(ast, occurrence => {
+            if (!found && containsOffset(occurrence.loc)) {
+                found = { target: { kind: 'class', fqn: occurrence.fqn }, loc: occurrence.loc };
+            }
+        }, text);
+        if (found) return found;
+
+        // Calls are visited before the names and lookups inside them
+        walkWithContext(ast, (node, context, resolver) => {
+            if (found) return;
+            const setSymbol = (defs: SymbolDef[], loc: any, receivers?: string[]) => {
+                found = { target: { kind: 'symbol', defs, receivers }, loc };
+            };
+
+            if (['class', 'interface', 'trait', 'enum'].includes(node.kind) && containsOffset(node.name?.loc) && context.classFqn) {
+                found = { target: { kind: 'class', fqn: context.classFqn }, loc: node.name.loc };
+            } else if (node.kind === 'method' && containsOffset(node.name?.loc) && context.classFqn) {
+                setSymbol(this.indexer.getMethodDefinitions(`${context.classFqn}::${getNodeName(node.name)}`), node.name.loc);
+            } else if (node.kind === 'function' && containsOffset(node.name?.loc) && context.callable?.target.kind === 'function') {
+                setSymbol(this.indexer.getFunctionDefinitions(context.callable.target.fqn), node.name.loc);
+            } else if (node.kind === 'property' && containsOffset(node.name?.loc) && context.classFqn) {
+                const property = this.indexer.getProperty(context.classFqn, getNodeName(node.name) || '');
+                setSymbol(property ? [property] : [], node.name.loc);
+            } else if (node.kind === 'parameter' && (node.flags || node.readonly) && containsOffset(node.name?.loc) && context.classFqn) {
+                // Promoted constructor parameter
+                const property = this.indexer.getProperty(context.classFqn, getNodeName(node.name) || '');
+                if (property) setSymbol([property], node.name.loc);
+            } else if (node.kind === 'classconstant' && context.classFqn) {
+                const constant = (node.constants || []).find((c: any) => containsOffset(c.name?.loc));
+                if (constant) {
+                    const def = this.indexer.getClassConstant(context.classFqn, getNodeName(constant.name) || '');
+                    setSymbol(def ? [def] : [], constant.name.loc);
+                }
+            } else if (node.kind === 'enumcase' && containsOffset(node.name?.loc) && context.classFqn) {
+                setSymbol(this.indexer.getEnumCaseDefinitions(`${context.classFqn}::${getNodeName(node.name)}`), node.name.loc);
+            } else if (node.kind === 'call' && node.what?.kind === 'name' && containsOffset(node.what.loc)) {
+                const fqn = resolver.resolveFunctionName(node.what.name, node.what.resolution);
+                const defs = this.indexer.getFunctionDefinitions(fqn);
+                // Unqualified calls fall back to the global function
+                setSymbol(defs.length > 0 || node.what.resolution !== 'uqn' ? defs : this.indexer.getFunctionDefinitions(node.what.name), node.what.loc);
+            } else if ((node.kind === 'call' && LOOKUP_KINDS.includes(node.what?.kind)) || LOOKUP_KINDS.includes(node.kind)) {
+                const isCall = node.kind === 'call';
+                const lookup = isCall ? node.what : node;
+                const name = getNodeName(lookup.offset);
+                if (!name || !containsOffset(lookup.offset.loc)) return;
+
+                const receivers = lookup.kind === 'staticlookup'
+                    ? [this.typeInference.resolveClassReference(lookup.what, context, resolver)].filter((fqn): fqn is string => !!fqn)
+                    : this.typeInference.inferClassTypes(lookup.what, context, resolver, lookup.loc.start.offset);
+                const kind = isCall ? 'method'
+                    : lookup.kind !== 'staticlookup' || lookup.offset.kind === 'variable' ? 'property'
+                    : 'constant';
+                setSymbol(this.typeInference.findMemberDefinitions(receivers, name, kind), lookup.offset.loc, receivers);
+            } else if (node.kind === 'name' && containsOffset(node.loc)) {
+                // Not a class name nor a called function: a global constant
+                const fqn = resolver.resolveConstantName(node.name, node.resolution);
+                const defs = this.indexer.getConstantDefinitions(fqn);
+                setSymbol(defs.length > 0 || node.resolution !== 'uqn' ? defs : this.indexer.getConstantDefinitions(node.name), node.loc);
+            }
+        });
+        return found;
+    }
+
+    private renderClass(fqn: string): vscode.MarkdownString | undefined {
+        const def = this.indexer.getDefinitions(fqn)[0];
+        if (!def) return undefined;
+
+        const info = this.indexer.getInheritanceInfo(fqn);
+        let declaration = `${def.kind} ${def.name}`;
+        if (def.backingType) declaration += `: ${def.backingType}`;
+        if (info?.extends) declaration += ` extends ${formatType(info.extends)}`;
+        if (info && info.implements.length > 0) {
+            // Interfaces list their parents as extended ones
+            declaration += `${def.kind === 'interface' ? ' extends ' : ' implements '}${info.implements.map(formatType).join(', ')}`;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendCodeblock(declaration, 'php');
+        markdown.appendMarkdown(`\`${fqn}\``);
+        if (info && info.traits.length > 0) {
+            markdown.appendMarkdown(` · uses ${info.traits.map(trait => `\`${trait}\``).join(', ')}`);
+        }
+        this.appendSummary(markdown, def.summary);
+        return markdown;
+    }
+
+    private renderSymbols(defs: SymbolDef[], receivers?: string[]): vscode.MarkdownString | undefined {
+        if (defs.length === 0) return undefined;
+
+        const markdown = new vscode.MarkdownString();
+        defs.forEach((def, i) => {
+            if (i > 0) markdown.appendMarkdown('\n\n---\n\n');
+
+            let declaration: string;
+            let fqn: string;
+            if (def.kind === 'method' || def.kind === 'function') {
+                declaration = formatFunctionSignature(def);
+                fqn = def.kind === 'method' ? `${def.parent}::${def.name}()` : `${def.fqn || def.name}()`;
+            } else if (def.kind === 'property' || def.kind === 'classConstant') {
+                declaration = formatMemberSignature(def as MemberDef);
+                fqn = `${def.parent}::${def.kind === 'property' ? '$' : ''}${def.name}`;
+            } else if (def.kind === 'enumCase') {
+                declaration = `case ${def.name}`;
+                fqn = `${def.parent}::${def.name}`;
+            } else {
+                declaration = `const ${def.name}`;
+                fqn = def.fqn || def.name;
+            }
+
+            markdown.appendCodeblock(declaration, 'php');
+            markdown.appendMarkdown(`\`${fqn}\``);
+            // Members found on a subclass show where they come from
+            if (def.parent && receivers && receivers.length > 0 && !receivers.includes(def.parent)) {
+                markdown.appendMarkdown(` · inherited by \`${receivers.join('`, `')}\``);
+            }
+            this.appendSummary(markdown, def.summary);
+        });
+        return markdown;
+    }
+
+    private appendSummary(markdown: vscode.MarkdownString, summary?: string) {
+        if (summary) {
+            markdown.appendMarkdown('\n\n' + summary);
+        }
+    }
+}
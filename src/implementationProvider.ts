@@ -1,13 +1,16 @@
 import * as vscode from 'vscode';
 import { Indexer } from './indexer';
+import { ReferenceFinder } from './referenceFinder';
 
 export class PhpImplementationProvider implements vscode.ImplementationProvider {
     private indexer: Indexer;
     private outputChannel: vscode.OutputChannel;
+    private referenceFinder: ReferenceFinder;
 
     constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
         this.indexer = indexer;
         this.outputChannel = outputChannel;
+        this.referenceFinder = new ReferenceFinder(indexer);
     }
 
     public async provideImplementation(
@@ -23,53 +26,37 @@ export class PhpImplementationProvider implements vscode.ImplementationProvider
 
         const locations: vscode.Location[] = [];
 
-        // Check if it's an interface
-        const definitions = this.indexer.getDefinitions(word);
-        const isInterface = definitions.some(def => def.kind === 'interface');
-
-        if (isInterface) {
-            // Find all classes that implement this interface
-            const implementations = this.indexer.getImplementations(word);
-
-            for (const className of implementations) {
-                const classDefs = this.indexer.getDefinitions(className);
-                for (const def of classDefs) {
-                    if (def.range) {
-                        const uri = vscode.Uri.file(def.path);
-                        locations.push(new vscode.Location(uri, def.range));
+        // Check if it's an interface or a (possibly abstract) class, by the FQN the name resolves to
+        const fqn = this.referenceFinder.findClassAt(document, position);
+        const typeDefs = (fqn ? this.indexer.getDefinitions(fqn) : this.indexer.getDefinitionsByShortName(word))
+            .filter(def => def.kind === 'interface' || def.kind === 'class');
+
+        if (typeDefs.length > 0) {
+            // Find all classes that implement/extend it, directly or through other types
+            let implementationCount = 0;
+            for (const typeDef of typeDefs) {
+                for (const subtypeFqn of this.indexer.getSubtypes(typeDef.fqn || typeDef.name)) {
+                    // Interfaces extending an interface are not implementations
+                    const classDefs = this.indexer.getDefinitions(subtypeFqn).filter(def => def.kind !== 'interface');
+                    implementationCount += classDefs.length;
+                    for (const def of classDefs) {
+                        if (def.range) {
+                            const uri = vscode.Uri.file(def.path);
+                            locations.push(new vscode.Location(uri, def.range));
+                        }
                     }
                 }
             }
 
-            this.outputChannel.appendLine(`[ImplProvider] Found ${implementations.length} implementing classes`);
+            this.outputChannel.appendLine(`[ImplProvider] Found ${implementationCount} implementing classes`);
         } else {
-            // Check if it's a method within an interface
-            // Look at the current line to see if we're in an interface context
-            const lineText = document.lineAt(position.line).text;
-
-            // Try to find the parent class/interface
-            // This requires parsing the current document
-            // For simplicity, we'll check if the cursor is within an interface definition
-            const text = document.getText();
-            const offset = document.offsetAt(position);
-
-            // Simple heuristic: find the interface block this position is in
-            const beforeText = text.substring(0, offset);
-            const interfaceMatch = beforeText.match(/interface\s+(\w+)/g);
-
-            if (interfaceMatch && interfaceMatch.length > 0) {
-                const lastInterfaceMatch = interfaceMatch[interfaceMatch.length - 1];
-                const interfaceName = lastInterfaceMatch.replace('interface', '').trim();
-
-                // Find implementations of this interface
-                const implementations = this.indexer.getImplementations(interfaceName);
-
-                for (const className of implementations) {
+            // A method, from its declaration or a call resolved through the receiver's type
+            const member = this.referenceFinder.findMemberAt(document, position);
+            if (member?.kind === 'method') {
+                // Implementations/overrides can be anywhere down the hierarchy
+                for (const classFqn of this.indexer.getSubtypes(member.classFqn)) {
                     // Look for this method in the implementing class
-                    const methodKey = `${className}::${word}`;
-                    const methodDefs = this.indexer.getMethodDefinitions(methodKey);
-
-                    for (const methodDef of methodDefs) {
+                    for (const methodDef of this.indexer.getMethodDefinitions(`${classFqn}::${member.name}`)) {
                         if (methodDef.range) {
                             const uri = vscode.Uri.file(methodDef.path);
                             locations.push(new vscode.Location(uri, methodDef.range));
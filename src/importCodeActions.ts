@@ -56,16 +56,14 @@ export class PhpImportCodeActions implements vscode.CodeActionProvider {
 
             if (!className) continue;
 
-            // Clean up FQN if caught (remove namespace parts if we only want simple name for lookup, 
-            // BUT indexer.getDefinitions usually expects simple name. 
-            // If we have FQN, we might want to check if it's already imported or just use the FQN directly?)
-            // For now, let's extract the short name for lookup, as our index stores by short name.
+            // Clean up FQN if caught: the message may hold the name as written (relative to the
+            // file's namespace), so look the class up by its short name across all namespaces.
             if (className.includes('\\')) {
                 className = className.split('\\').pop() || className;
             }
 
             // Find all possible FQNs for this class
-            const definitions = this.indexer.getDefinitions(className);
+            const definitions = this.indexer.getDefinitionsByShortName(className);
 
             if (definitions.length === 0) {
                 // Offer a generic action even if not found
@@ -115,10 +113,10 @@ export class PhpImportCodeActions implements vscode.CodeActionProvider {
                 const word = document.getText(wordRange);
                 // Simple heuristic: Class names usually start with uppercase
                 if (word && /^[A-Z][a-zA-Z0-9]*$/.test(word)) { // Only try for likely class names to avoid noise
-                    const definitions = this.indexer.getDefinitions(word);
+                    const definitions = this.indexer.getDefinitionsByShortName(word);
                     if (definitions.length > 0) {
                         // Check if already imported
-                        const blockInfo = this.getImportBlockInfo(document);
+                        const blockInfo = PhpImportCodeActions.getImportBlockInfo(document);
                         const isImported = blockInfo.imports.some(imp => {
                             // imp is "use Foo\Bar;"
                             // Check if it ends with word; or " as word;"
@@ -143,28 +141,70 @@ export class PhpImportCodeActions implements vscode.CodeActionProvider {
                         }
                     }
                 }
+
+                // Namespaced functions and constants (global ones never need an import)
+                if (word && actions.length === 0 && /^[a-zA-Z_]\w*$/.test(word)) {
+                    const lineText = document.lineAt(wordRange.start.line).text;
+                    const before = lineText.substring(0, wordRange.start.character);
+                    const after = lineText.substring(wordRange.end.character);
+                    const isMember = /(?:->|::|\$|\\)\s*$/.test(before) || /\b(?:function|new|const)\s+$/.test(before);
+
+                    if (!isMember) {
+                        const useType = /^\s*\(/.test(after) ? 'function' : 'const';
+                        const definitions = useType === 'function'
+                            ? this.indexer.getFunctionsByShortName(word)
+                            : this.indexer.getConstantsByShortName(word);
+
+                        const blockInfo = PhpImportCodeActions.getImportBlockInfo(document);
+                        const isImported = blockInfo.imports.some(imp =>
+                            imp.startsWith(`use ${useType} `) && (imp.endsWith(`\\${word};`) || imp.endsWith(` as ${word};`)));
+
+                        if (!isImported) {
+                            for (const def of definitions) {
+                                if (!def.fqn || !def.fqn.includes('\\')) continue;
+                                const action = new vscode.CodeAction(
+                                    `Add import for ${useType} ${def.fqn}`,
+                                    vscode.CodeActionKind.QuickFix
+                                );
+                                action.edit = this.createImportEdit(document, def.fqn, useType);
+                                actions.push(action);
+                            }
+                        }
+                    }
+                }
             }
         }
 
         return actions;
     }
 
-    private createImportEdit(document: vscode.TextDocument, fqn: string): vscode.WorkspaceEdit {
+    private createImportEdit(document: vscode.TextDocument, fqn: string, useType?: 'function' | 'const'): vscode.WorkspaceEdit {
         const edit = new vscode.WorkspaceEdit();
-        const blockInfo = this.getImportBlockInfo(document);
+        edit.set(document.uri, PhpImportCodeActions.getImportTextEdits(document, fqn, useType));
+        return edit;
+    }
+
+    /**
+     * Text edits that add `use <fqn>;` to the import block, keeping it sorted, or create the
+     * block after the namespace declaration. Shared with completion, which applies them as
+     * additional edits.
+     */
+    public static getImportTextEdits(document: vscode.TextDocument, fqn: string, useType?: 'function' | 'const'): vscode.TextEdit[] {
+        const blockInfo = PhpImportCodeActions.getImportBlockInfo(document);
 
         // Add new import
-        const newImportLine = `use ${fqn};`;
+        const newImportLine = useType ? `use ${useType} ${fqn};` : `use ${fqn};`;
         const allImports = new Set(blockInfo.imports);
         allImports.add(newImportLine);
 
-        // Sort imports alphabetically
-        const sortedImports = Array.from(allImports).sort((a, b) => a.localeCompare(b));
+        // Sort imports alphabetically, with function and then const imports after the classes (PSR-12)
+        const importGroup = (line: string) => line.startsWith('use function ') ? 1 : line.startsWith('use const ') ? 2 : 0;
+        const sortedImports = Array.from(allImports).sort((a, b) => importGroup(a) - importGroup(b) || a.localeCompare(b));
         const importBlockText = sortedImports.join('\n');
 
         if (blockInfo.range) {
             // Replace existing block
-            edit.replace(document.uri, blockInfo.range, importBlockText);
+            return [vscode.TextEdit.replace(blockInfo.range, importBlockText)];
         } else {
             // Insert new block
             // Check previous line for newline requirement
@@ -187,9 +227,23 @@ export class PhpImportCodeActions implements vscode.CodeActionProvider {
 
             const textToInsert = `${prefix}${importBlockText}${suffix}`;
             const pos = new vscode.Position(blockInfo.insertLine, 0);
-            edit.insert(document.uri, pos, textToInsert);
+            return [vscode.TextEdit.insert(pos, textToInsert)];
         }
-        return edit;
+    }
+
+    /**
+     * Classes imported by the file, keyed by the lowercased short name or alias they are
+     * used under (`use Foo\Bar;`, `use Foo\Baz as Qux;`).
+     */
+    public static getClassImports(document: vscode.TextDocument): Map<string, string> {
+        const imports = new Map<string, string>();
+        for (const line of PhpImportCodeActions.getImportBlockInfo(document).imports) {
+            const match = line.match(/^use\s+\\?([\w\\]+)(?:\s+as\s+(\w+))?;$/i);
+            if (!match) continue; // `use function`/`use const` and group imports
+            const alias = match[2] || match[1].split('\\').pop()!;
+            imports.set(alias.toLowerCase(), match[1]);
+        }
+        return imports;
     }
 
     private getFQNFromDefinition(def: any, className: string): string {
@@ -237,7 +291,7 @@ export class PhpImportCodeActions implements vscode.CodeActionProvider {
         return className;
     }
 
-    private getImportBlockInfo(document: vscode.TextDocument): {
+    private static getImportBlockInfo(document: vscode.TextDocument): {
         range: vscode.Range | null,
         imports: string[],
         insertLine: number
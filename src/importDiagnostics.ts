@@ -159,7 +159,7 @@ export class PhpImportDiagnostics {
 
             // Skip if it's in the same namespace
             // Skip if it's in the same namespace
-            const definitions = this.indexer.getDefinitions(name);
+            const definitions = this.indexer.getDefinitionsByShortName(name);
             const expectedFQN = currentNamespace ? `${currentNamespace}\\${name}` : name;
 
             const inSameNamespace = definitions.some(def => {
@@ -0,0 +1,72 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FileSymbols } from './symbolExtractor';
+
+/**
+ * Bump this whenever the shape of FileSymbols (or what the extractor puts in it) changes.
+ * Caches written with another version are discarded and the workspace is re-parsed.
+ */
+export const INDEX_CACHE_SCHEMA_VERSION = 13;
+
+export interface CachedFile {
+    mtime: number;
+    size: number;
+    hash: string;
+    symbols: FileSymbols;
+}
+
+interface CacheFileContents {
+    version: number;
+    files: { [uri: string]: CachedFile };
+}
+
+export function hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Persists the per-file symbol records of the Indexer to the extension's storage,
+ * so that only files that changed since the last session have to be parsed again.
+ */
+export class IndexCache {
+    private cachePath: string;
+
+    constructor(storagePath: string) {
+        this.cachePath = path.join(storagePath, 'index-cache.json');
+    }
+
+    /**
+     * Rejects when the cache file cannot be read, leaving the caller to report it.
+     */
+    public async load(): Promise<Map<string, CachedFile>> {
+        const entries = new Map<string, CachedFile>();
+        if (!await fs.pathExists(this.cachePath)) {
+            return entries;
+        }
+        const contents = await fs.readJson(this.cachePath) as CacheFileContents;
+        if (!contents || contents.version !== INDEX_CACHE_SCHEMA_VERSION || !contents.files) {
+            return entries; // Stale schema, start over
+        }
+        for (const [uri, entry] of Object.entries(contents.files)) {
+            entries.set(uri, entry);
+        }
+        return entries;
+    }
+
+    public async save(entries: Map<string, CachedFile>): Promise<void> {
+        const contents: CacheFileContents = {
+            version: INDEX_CACHE_SCHEMA_VERSION,
+            files: {}
+        };
+        for (const [uri, entry] of entries) {
+            contents.files[uri] = entry;
+        }
+        await fs.ensureDir(path.dirname(this.cachePath));
+        await fs.writeJson(this.cachePath, contents);
+    }
+
+    public async clear(): Promise<void> {
+        await fs.remove(this.cachePath);
+    }
+}
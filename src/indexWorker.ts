@@ -0,0 +1,51 @@
+/**
+ * Worker thread entry point used by IndexWorkerPool.
+ *
+ * Runs outside the extension host, so it must not import 'vscode'. It reads and parses
+ * one file per request and answers with the compact FileSymbols record of that file.
+ */
+import { parentPort } from 'worker_threads';
+import * as fs from 'fs-extra';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { hashContent } from './indexCache';
+import { extractFileSymbols } from './symbolExtractor';
+import type { WorkerRequest, WorkerResponse } from './indexWorkerPool';
+
+const parser = new Engine({
+    parser: { extractDoc: true },
+    ast: { withPositions: true }
+});
+
+async function handle(request: WorkerRequest): Promise<WorkerResponse> {
+    try {
+        const stat = await fs.stat(request.fsPath);
+        const content = await fs.readFile(request.fsPath, 'utf8');
+        const hash = hashContent(content);
+
+        // Touched but not modified: the caller keeps its cached symbols
+        if (request.knownHash && request.knownHash === hash) {
+            return { id: request.id, unchanged: true, mtime: stat.mtimeMs, size: stat.size };
+        }
+
+        const ast = parser.parseCode(content, request.fsPath);
+        return {
+            id: request.id,
+            entry: {
+                mtime: stat.mtimeMs,
+                size: stat.size,
+                hash: hash,
+                symbols: extractFileSymbols(ast)
+            }
+        };
+    } catch (e: any) {
+        return { id: request.id, error: e?.message || String(e) };
+    }
+}
+
+if (parentPort) {
+    const port = parentPort;
+    port.on('message', async (request: WorkerRequest) => {
+        port.postMessage(await handle(request));
+    });
+}
@@ -0,0 +1,131 @@
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+import { CachedFile } from './indexCache';
+
+export interface WorkerRequest {
+    id: number;
+    fsPath: string;
+    knownHash?: string;
+}
+
+export interface WorkerResponse {
+    id: number;
+    entry?: CachedFile;
+    unchanged?: boolean; // Content hash matched knownHash, nothing was parsed
+    mtime?: number;
+    size?: number;
+    error?: string;
+}
+
+interface PendingJob {
+    request: WorkerRequest;
+    resolve: (response: WorkerResponse) => void;
+}
+
+/**
+ * A small pool of worker threads that parse PHP files off the extension host thread.
+ * Jobs are queued and handed to whichever worker is idle.
+ */
+export class IndexWorkerPool {
+    private workers: Worker[] = [];
+    private idle: Worker[] = [];
+    private queue: PendingJob[] = [];
+    private running: Map<Worker, PendingJob> = new Map();
+    private nextId = 1;
+    private disposed = false;
+
+    constructor(private workerScript: string, size?: number) {
+        const poolSize = size || Math.max(1, Math.min(os.cpus().length - 1, 4));
+        for (let i = 0; i < poolSize; i++) {
+            this.spawn();
+        }
+    }
+
+    private spawn() {
+        const worker = new Worker(this.workerScript);
+
+        worker.on('message', (response: WorkerResponse) => {
+            const job = this.running.get(worker);
+            this.running.delete(worker);
+            if (job) job.resolve(response);
+            this.release(worker);
+        });
+
+        // An uncaught exception in the worker is reported here, then the worker exits
+        let failure: string | undefined;
+        worker.on('error', (err) => {
+            failure = err.message;
+        });
+
+        worker.on('exit', (code) => {
+            const job = this.running.get(worker);
+            this.running.delete(worker);
+            this.workers = this.workers.filter(w => w !== worker);
+            this.idle = this.idle.filter(w => w !== worker);
+            if (this.disposed) return;
+
+            if (job) {
+                // A worker that crashed or exited on a file fails that job
+                job.resolve({ id: job.request.id, error: failure || `Index worker exited with code ${code}` });
+            }
+            if (job || !failure) {
+                this.spawn();
+            } else if (this.workers.length === 0) {
+                // Workers could not even start: fail everything that is waiting
+                for (const queued of this.queue) {
+                    queued.resolve({ id: queued.request.id, error: failure });
+                }
+                this.queue = [];
+            }
+        });
+
+        this.workers.push(worker);
+        this.release(worker);
+    }
+
+    private release(worker: Worker) {
+        if (this.disposed) return;
+        const job = this.queue.shift();
+        if (job) {
+            this.running.set(worker, job);
+            worker.postMessage(job.request);
+        } else {
+            this.idle.push(worker);
+        }
+    }
+
+    public parse(fsPath: string, knownHash?: string): Promise<WorkerResponse> {
+        return new Promise(resolve => {
+            if (this.disposed || this.workers.length === 0) {
+                resolve({ id: 0, error: 'cancelled' });
+                return;
+            }
+            const job: PendingJob = { request: { id: this.nextId++, fsPath, knownHash }, resolve };
+            const worker = this.idle.pop();
+            if (worker) {
+                this.running.set(worker, job);
+                worker.postMessage(job.request);
+            } else {
+                this.queue.push(job);
+            }
+        });
+    }
+
+    /**
+     * Drops queued jobs (they resolve with an error) and terminates all workers.
+     */
+    public async dispose(): Promise<void> {
+        this.disposed = true;
+        for (const job of this.queue) {
+            job.resolve({ id: job.request.id, error: 'cancelled' });
+        }
+        this.queue = [];
+        for (const job of this.running.values()) {
+            job.resolve({ id: job.request.id, error: 'cancelled' });
+        }
+        this.running.clear();
+        await Promise.all(this.workers.map(w => w.terminate()));
+        this.workers = [];
+        this.idle = [];
+    }
+}
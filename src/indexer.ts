@@ -3,42 +3,115 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 // @ts-ignore
 import { Engine } from 'php-parser';
+import { ComposerProject, getComposerProject } from './composerProject';
+import { CachedFile, IndexCache, hashContent } from './indexCache';
+import { IndexWorkerPool } from './indexWorkerPool';
+import { FileSymbols, InheritanceInfo, ParamRecord, SerializedRange, SymbolKind, SymbolRecord, Visibility, extractFileSymbols } from './symbolExtractor';
+
+export type { InheritanceInfo, ParamRecord } from './symbolExtractor';
 
 export interface SymbolDef {
     name: string;
     path: string;
-    kind: 'class' | 'interface' | 'trait' | 'method';
+    kind: SymbolKind;
     range?: vscode.Range;
-    parent?: string; // For methods: the class/interface/trait name
+    parent?: string; // For methods and enum cases: the FQN of the class/interface/trait/enum
     fqn?: string; // Fully Qualified Name (e.g., Symfony\Component\HttpFoundation\Request)
+    backingType?: string; // For backed enums: `int` or `string`
+    visibility?: Visibility; // For methods
+    isStatic?: boolean; // For methods
+    returnType?: string; // For methods and functions
+    docReturnType?: string; // For methods and functions: the `@return` type
+    params?: ParamRecord[]; // For methods and functions
+    summary?: string; // PHPDoc text before the tags
+}
+
+/**
+ * A property or class constant. Types hold class names resolved to FQNs.
+ */
+export interface MemberDef extends SymbolDef {
+    kind: 'property' | 'classConstant';
+    parent: string;
+    visibility: Visibility;
+    isStatic: boolean;
+    isReadonly: boolean;
+    promoted?: boolean; // Declared by a constructor parameter
+    type?: string; // Declared type
+    docType?: string; // PHPDoc type (`@var`, or `@param` of the constructor for promoted properties)
 }
 
-export interface InheritanceInfo {
-    className: string;
-    extends?: string;
-    implements: string[];
+/**
+ * Normalizes a class name for lookups: FQNs are stored without the leading backslash.
+ */
+export function normalizeFqn(name: string): string {
+    return name.startsWith('\\') ? name.substring(1) : name;
+}
+
+export function getShortName(fqn: string): string {
+    const parts = fqn.split('\\');
+    return parts[parts.length - 1];
 }
 
 export class Indexer {
     // Map<SymbolName, Set<FileUriString>> - For Usage/References (Search)
     private index: Map<string, Set<string>> = new Map();
 
-    // Map<SymbolName, SymbolDef[]> - For Definitions config (Wizard/Autocomplete)
+    // Map<LowercasedMemberName, Set<FileUriString>> - Files declaring or accessing a member with that name
+    private memberIndex: Map<string, Set<string>> = new Map();
+
+    // Map<LowercasedFunctionShortName, Set<FileUriString>> - Files calling a function with that name
+    private functionCallIndex: Map<string, Set<string>> = new Map();
+
+    // Map<FQN, SymbolDef[]> - Classes/interfaces/traits/enums, for Definitions config (Wizard/Autocomplete)
     private definitions: Map<string, SymbolDef[]> = new Map();
 
-    // Map<ClassName::method, SymbolDef[]> - For Method Definitions
+    // Map<ShortName, Set<FQN>> - Secondary lookup for names as written without namespace
+    private shortNames: Map<string, Set<string>> = new Map();
+
+    // Map<ClassFQN::method, SymbolDef[]> - For Method Definitions
     private methods: Map<string, SymbolDef[]> = new Map();
 
-    // Map<ClassName, InheritanceInfo> - For Inheritance Relationships
+    // Map<FQN, SymbolDef[]> - Functions and global constants live in their own namespaces
+    private functions: Map<string, SymbolDef[]> = new Map();
+    private functionShortNames: Map<string, Set<string>> = new Map();
+    private constants: Map<string, SymbolDef[]> = new Map();
+    private constantShortNames: Map<string, Set<string>> = new Map();
+
+    // Map<EnumFQN::Case, SymbolDef[]> - For Enum Cases
+    private enumCases: Map<string, SymbolDef[]> = new Map();
+
+    // Map<ClassFQN, Set<ClassFQN::name>> - Keys of `methods`/`enumCases` by declaring class
+    private classMethodKeys: Map<string, Set<string>> = new Map();
+    private classEnumCaseKeys: Map<string, Set<string>> = new Map();
+
+    // Map<ClassFQN, MemberDef[]> - Properties and class constants declared by each class
+    private members: Map<string, MemberDef[]> = new Map();
+
+    // Map<ClassFQN, InheritanceInfo> - For Inheritance Relationships
     private inheritance: Map<string, InheritanceInfo> = new Map();
+    private subtypeIndex?: Map<string, string[]>;
 
     private files: Set<string> = new Set(); // Track indexed files
+    // Map<FolderUriString, Set<FileUriString>> - Indexed files by workspace folder
+    private folderFiles: Map<string, Set<string>> = new Map();
+    // Map<FileUriString, CachedFile> - Per-file symbol records, persisted between sessions
+    private fileEntries: Map<string, CachedFile> = new Map();
+    private cache?: IndexCache;
+    private cacheSaveTimeout?: NodeJS.Timeout;
     private parser: any;
     private isIndexing = false;
+    private scanning?: Promise<void>;
     private outputChannel?: vscode.OutputChannel;
 
-    constructor(outputChannel?: vscode.OutputChannel) {
+    // Fired with the file that was re-indexed or removed, or undefined after a workspace scan
+    private indexChanged = new vscode.EventEmitter<vscode.Uri | undefined>();
+    public readonly onDidChangeIndex = this.indexChanged.event;
+
+    constructor(outputChannel?: vscode.OutputChannel, storagePath?: string) {
         this.outputChannel = outputChannel;
+        if (storagePath) {
+            this.cache = new IndexCache(storagePath);
+        }
         this.parser = new Engine({
             parser: { extractDoc: true },
             ast: { withPositions: true }
@@ -52,20 +125,43 @@ export class Indexer {
         console.log(`[Indexer] ${message}`);
     }
 
+    /**
+     * Returns the files that reference the given class/interface/trait FQN.
+     */
     public getCandidates(symbol: string): string[] {
-        const files = this.index.get(symbol);
+        const files = this.index.get(normalizeFqn(symbol));
+        return files ? Array.from(files) : [];
+    }
+
+    /**
+     * Returns the files that declare or access a method, property or constant with the given
+     * name, on any class (method names are case-insensitive, so the lookup is too).
+     */
+    public getMemberCandidates(name: string): string[] {
+        const files = this.memberIndex.get(name.replace(/^\$/, '').toLowerCase());
+        return files ? Array.from(files) : [];
+    }
+
+    /**
+     * Returns the files calling a function with the short name of the given FQN, in any
+     * namespace (function names are case-insensitive, so the lookup is too).
+     */
+    public getFunctionCallCandidates(fqn: string): string[] {
+        const files = this.functionCallIndex.get(getShortName(fqn).toLowerCase());
         return files ? Array.from(files) : [];
     }
 
     /**
      * Returns a flat list of symbols matching the requested kinds.
      */
-    public getSymbolsByKind(kinds: ('class' | 'interface' | 'trait' | 'method')[]): SymbolDef[] {
+    public getSymbolsByKind(kinds: SymbolKind[]): SymbolDef[] {
         const result: SymbolDef[] = [];
-        for (const defs of this.definitions.values()) {
-            for (const def of defs) {
-                if (kinds.includes(def.kind)) {
-                    result.push(def);
+        for (const map of [this.definitions, this.functions, this.constants, this.methods]) {
+            for (const defs of map.values()) {
+                for (const def of defs) {
+                    if (kinds.includes(def.kind)) {
+                        result.push(def);
+                    }
                 }
             }
         }
@@ -92,302 +188,917 @@ export class Indexer {
         return results;
     }
 
-    public getDefinitions(name: string): SymbolDef[] {
-        return this.definitions.get(name) || [];
+    /**
+     * Looks up a class/interface/trait by its fully qualified name (leading backslash optional).
+     */
+    public getDefinitions(fqn: string): SymbolDef[] {
+        return this.definitions.get(normalizeFqn(fqn)) || [];
+    }
+
+    /**
+     * Looks up a class by FQN, indexing the file Composer would autoload it from when it is
+     * not indexed yet. Vendor packages are only scanned when vendor indexing is enabled, so
+     * their classes are found this way, one file at a time.
+     *
+     * @param from The file the class is referenced from, whose Composer project is tried first
+     */
+    public async resolveClass(fqn: string, from?: vscode.Uri): Promise<SymbolDef[]> {
+        const defs = this.getDefinitions(fqn);
+        if (defs.length > 0) return defs;
+
+        // The referencing file's project first (a vendor file's own package), then each folder's
+        const lookups = [
+            ...(from ? [from.fsPath] : []),
+            ...(vscode.workspace.workspaceFolders || []).map(folder => path.join(folder.uri.fsPath, 'composer.json'))
+        ];
+        const projects = new Set<ComposerProject>();
+        for (const lookup of lookups) {
+            const project = await getComposerProject(lookup);
+            if (!project || projects.has(project)) continue;
+            projects.add(project);
+
+            const file = await project.findClassFile(fqn);
+            if (!file || this.files.has(vscode.Uri.file(file).toString())) continue;
+
+            this.log(`Autoloading ${normalizeFqn(fqn)} from ${file}`);
+            await this.scanFile(vscode.Uri.file(file));
+            const loaded = this.getDefinitions(fqn);
+            if (loaded.length > 0) return loaded;
+        }
+        return [];
+    }
+
+    /**
+     * Looks up every class/interface/trait/enum whose short name matches, across all namespaces.
+     */
+    public getDefinitionsByShortName(name: string): SymbolDef[] {
+        return this.lookupByShortName(this.definitions, this.shortNames, name);
     }
 
+    /**
+     * @param qualifiedName `ClassFQN::method`
+     */
     public getMethodDefinitions(qualifiedName: string): SymbolDef[] {
-        return this.methods.get(qualifiedName) || [];
+        return this.methods.get(normalizeFqn(qualifiedName)) || [];
+    }
+
+    public getFunctionDefinitions(fqn: string): SymbolDef[] {
+        return this.functions.get(normalizeFqn(fqn)) || [];
+    }
+
+    public getFunctionsByShortName(name: string): SymbolDef[] {
+        return this.lookupByShortName(this.functions, this.functionShortNames, name);
+    }
+
+    public getConstantDefinitions(fqn: string): SymbolDef[] {
+        return this.constants.get(normalizeFqn(fqn)) || [];
+    }
+
+    public getConstantsByShortName(name: string): SymbolDef[] {
+        return this.lookupByShortName(this.constants, this.constantShortNames, name);
+    }
+
+    /**
+     * @param qualifiedName `EnumFQN::Case`
+     */
+    public getEnumCaseDefinitions(qualifiedName: string): SymbolDef[] {
+        return this.enumCases.get(normalizeFqn(qualifiedName)) || [];
+    }
+
+    /**
+     * Looks up the methods with the given name in every class, case-insensitively like PHP.
+     * Only the files the member name index lists are looked at.
+     */
+    public getMethodsByName(name: string): SymbolDef[] {
+        const methodName = name.toLowerCase();
+        const keys = new Set<string>();
+        for (const uri of this.getMemberCandidates(name)) {
+            for (const method of this.fileEntries.get(uri)?.symbols.methods || []) {
+                if (method.name.toLowerCase() === methodName) keys.add(`${method.parent}::${method.name}`);
+            }
+        }
+        return Array.from(keys).flatMap(key => this.methods.get(key) || []);
+    }
+
+    /**
+     * Looks up the cases with the given name in every enum.
+     */
+    public getEnumCasesByName(caseName: string): SymbolDef[] {
+        const result: SymbolDef[] = [];
+        for (const [key, defs] of this.enumCases) {
+            if (key.endsWith(`::${caseName}`)) {
+                result.push(...defs);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the methods declared in the given class (not inherited ones).
+     */
+    public getClassMethods(classFqn: string): SymbolDef[] {
+        return this.getByParent(this.methods, this.classMethodKeys, classFqn);
+    }
+
+    /**
+     * Returns the cases declared in the given enum.
+     */
+    public getClassEnumCases(enumFqn: string): SymbolDef[] {
+        return this.getByParent(this.enumCases, this.classEnumCaseKeys, enumFqn);
+    }
+
+    private getByParent(map: Map<string, SymbolDef[]>, keysByParent: Map<string, Set<string>>, parentFqn: string): SymbolDef[] {
+        const result: SymbolDef[] = [];
+        for (const key of keysByParent.get(normalizeFqn(parentFqn)) || []) {
+            result.push(...(map.get(key) || []));
+        }
+        return result;
     }
 
-    public getInheritanceInfo(className: string): InheritanceInfo | undefined {
-        return this.inheritance.get(className);
+    /**
+     * Returns the properties and class constants declared in the given class (not inherited ones).
+     */
+    public getMembers(classFqn: string): MemberDef[] {
+        return this.members.get(normalizeFqn(classFqn)) || [];
+    }
+
+    /**
+     * @param name The property name, with or without `$`
+     */
+    public getProperty(classFqn: string, name: string): MemberDef | undefined {
+        const propertyName = name.startsWith('$') ? name.substring(1) : name;
+        return this.getMembers(classFqn).find(m => m.kind === 'property' && m.name === propertyName);
     }
 
-    public getImplementations(interfaceName: string): string[] {
+    public getClassConstant(classFqn: string, name: string): MemberDef | undefined {
+        return this.getMembers(classFqn).find(m => m.kind === 'classConstant' && m.name === name);
+    }
+
+    /**
+     * Looks up the properties with the given name in every class.
+     */
+    public getPropertiesByName(name: string): MemberDef[] {
+        const propertyName = name.startsWith('$') ? name.substring(1) : name;
+        return this.findMembers(m => m.kind === 'property' && m.name === propertyName);
+    }
+
+    /**
+     * Looks up the class constants with the given name in every class.
+     */
+    public getClassConstantsByName(name: string): MemberDef[] {
+        return this.findMembers(m => m.kind === 'classConstant' && m.name === name);
+    }
+
+    private findMembers(predicate: (member: MemberDef) => boolean): MemberDef[] {
+        const result: MemberDef[] = [];
+        for (const members of this.members.values()) {
+            result.push(...members.filter(predicate));
+        }
+        return result;
+    }
+
+    private lookupByShortName(map: Map<string, SymbolDef[]>, shortNames: Map<string, Set<string>>, name: string): SymbolDef[] {
+        const fqns = shortNames.get(name);
+        if (!fqns) return [];
+        const result: SymbolDef[] = [];
+        for (const fqn of fqns) {
+            result.push(...(map.get(fqn) || []));
+        }
+        return result;
+    }
+
+    public getInheritanceInfo(classFqn: string): InheritanceInfo | undefined {
+        return this.inheritance.get(normalizeFqn(classFqn));
+    }
+
+    /**
+     * Returns the FQNs of the classes that directly implement the given interface.
+     */
+    public getImplementations(interfaceFqn: string): string[] {
+        const target = normalizeFqn(interfaceFqn);
         const implementations: string[] = [];
         for (const [className, info] of this.inheritance.entries()) {
-            if (info.implements.includes(interfaceName)) {
+            if (info.implements.includes(target)) {
                 implementations.push(className);
             }
         }
         return implementations;
     }
 
+    /**
+     * Returns the FQNs of the classes that directly extend the given class.
+     */
+    public getSubclasses(classFqn: string): string[] {
+        const target = normalizeFqn(classFqn);
+        const subclasses: string[] = [];
+        for (const [className, info] of this.inheritance.entries()) {
+            if (info.extends === target) {
+                subclasses.push(className);
+            }
+        }
+        return subclasses;
+    }
+
+    /**
+     * Returns the FQNs of the classes/traits/enums that directly `use` the given trait.
+     */
+    public getTraitUsers(traitFqn: string): string[] {
+        const target = normalizeFqn(traitFqn);
+        const users: string[] = [];
+        for (const [className, info] of this.inheritance.entries()) {
+            if (info.traits.includes(target)) {
+                users.push(className);
+            }
+        }
+        return users;
+    }
+
+    /**
+     * Returns every class/interface/enum that extends or implements the given type, directly
+     * or through other types (interfaces extending interfaces, subclasses of implementors...).
+     */
+    public getSubtypes(fqn: string): string[] {
+        const subtypeIndex = this.getSubtypeIndex();
+        return this.walkHierarchy(normalizeFqn(fqn), name => subtypeIndex.get(name) || []);
+    }
+
+    /**
+     * Returns every parent class and interface of the given type, direct or inherited.
+     */
+    public getSupertypes(fqn: string): string[] {
+        return this.walkHierarchy(normalizeFqn(fqn), name => {
+            const info = this.inheritance.get(name);
+            if (!info) return [];
+            return info.extends ? [info.extends, ...info.implements] : info.implements;
+        });
+    }
+
+    /**
+     * Returns the parent classes of a class, nearest first. The chain ends at the first class
+     * that is not indexed (it is still included) or when a cycle is detected.
+     */
+    public getAncestorsChain(fqn: string): string[] {
+        const chain: string[] = [];
+        const visited = new Set<string>([normalizeFqn(fqn)]);
+        let parent = this.inheritance.get(normalizeFqn(fqn))?.extends;
+        while (parent && !visited.has(parent)) {
+            chain.push(parent);
+            visited.add(parent);
+            parent = this.inheritance.get(parent)?.extends;
+        }
+        return chain;
+    }
+
+    /**
+     * Returns the class followed by the types its members can come from, in PHP's lookup order:
+     * the class and its traits, then each parent class and its traits, then the interfaces.
+     */
+    public getMemberLookupOrder(classFqn: string): string[] {
+        const start = normalizeFqn(classFqn);
+        const order: string[] = [];
+        const seen = new Set<string>();
+        const addWithTraits = (fqn: string) => {
+            if (seen.has(fqn)) return;
+            seen.add(fqn);
+            order.push(fqn);
+            for (const trait of this.inheritance.get(fqn)?.traits || []) {
+                addWithTraits(trait);
+            }
+        };
+
+        for (const fqn of [start, ...this.getAncestorsChain(start)]) {
+            addWithTraits(fqn);
+        }
+        for (const fqn of this.getSupertypes(start)) {
+            addWithTraits(fqn);
+        }
+        return order;
+    }
+
+    /**
+     * Finds the definition of a method as seen from the given class, including inherited ones.
+     */
+    public findMethod(classFqn: string, methodName: string): SymbolDef[] {
+        for (const fqn of this.getMemberLookupOrder(classFqn)) {
+            const defs = this.getMethodDefinitions(`${fqn}::${methodName}`);
+            if (defs.length > 0) return defs;
+
+            // Method names are case-insensitive
+            const key = `${normalizeFqn(fqn)}::${methodName}`.toLowerCase();
+            const declared = Array.from(this.classMethodKeys.get(normalizeFqn(fqn)) || []).find(other => other.toLowerCase() === key);
+            if (declared) return this.getMethodDefinitions(declared);
+        }
+        return [];
+    }
+
+    /**
+     * Finds a property as seen from the given class, including inherited and trait ones.
+     */
+    public findProperty(classFqn: string, name: string): MemberDef | undefined {
+        for (const fqn of this.getMemberLookupOrder(classFqn)) {
+            const property = this.getProperty(fqn, name);
+            if (property) return property;
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds a class constant as seen from the given class, including interface constants.
+     */
+    public findClassConstant(classFqn: string, name: string): MemberDef | undefined {
+        for (const fqn of this.getMemberLookupOrder(classFqn)) {
+            const constant = this.getClassConstant(fqn, name);
+            if (constant) return constant;
+        }
+        return undefined;
+    }
+
+    /**
+     * Breadth-first walk over inheritance edges. The start type is excluded, and every type
+     * is visited once so cyclic (invalid) hierarchies terminate.
+     */
+    private walkHierarchy(start: string, next: (fqn: string) => string[]): string[] {
+        const visited = new Set<string>([start]);
+        const result: string[] = [];
+        const queue = [start];
+        while (queue.length > 0) {
+            for (const related of next(queue.shift()!)) {
+                if (visited.has(related)) continue;
+                visited.add(related);
+                result.push(related);
+                queue.push(related);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Reverse inheritance edges (type → direct subtypes), rebuilt lazily after index changes.
+     */
+    private getSubtypeIndex(): Map<string, string[]> {
+        if (!this.subtypeIndex) {
+            this.subtypeIndex = new Map();
+            for (const [className, info] of this.inheritance) {
+                const supertypes = info.extends ? [info.extends, ...info.implements] : info.implements;
+                for (const supertype of supertypes) {
+                    const subtypes = this.subtypeIndex.get(supertype) || [];
+                    subtypes.push(className);
+                    this.subtypeIndex.set(supertype, subtypes);
+                }
+            }
+        }
+        return this.subtypeIndex;
+    }
+
     public getAllSymbols(): string[] {
         return Array.from(this.index.keys());
     }
 
     public async scanWorkspace() {
-        if (this.isIndexing) return;
-        this.isIndexing = true;
+        if (this.isIndexing || this.scanning) return;
+        this.clearIndex(); // Full rescan: reset stats and maps
+        await this.indexFolders(vscode.workspace.workspaceFolders || []);
+    }
 
-        // Get exclusion configuration
-        const config = vscode.workspace.getConfiguration('phpRefactorTools.indexer');
-        const excludeVendor = config.get('excludeVendor', true);
-        const excludeDirs = config.get('exclude', ['vendor', 'node_modules', 'storage', 'var']);
+    /**
+     * Indexes a folder added to the workspace, leaving the other partitions as they are.
+     */
+    public async scanFolder(folder: vscode.WorkspaceFolder) {
+        // Wait for a scan in progress, which may not have seen the folder
+        while (this.scanning) {
+            await this.scanning;
+        }
+        await this.indexFolders([folder]);
+    }
 
-        // Build exclude pattern
-        let excludePattern = '';
-        if (excludeVendor) {
-            excludePattern = `**/{${excludeDirs.join(',')}}/**`;
-        } else {
-            // Exclude all except vendor
-            const nonVendorDirs = excludeDirs.filter((d: string) => d !== 'vendor');
-            if (nonVendorDirs.length > 0) {
-                excludePattern = `**/{${nonVendorDirs.join(',')}}/**`;
+    /**
+     * Drops everything indexed from a folder removed from the workspace.
+     */
+    public removeFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        const files = this.folderFiles.get(key);
+        if (!files) return;
+
+        this.log(`Removing ${files.size} files of folder ${folder.name}`);
+        for (const uriStr of Array.from(files)) {
+            const uri = vscode.Uri.parse(uriStr);
+            this.removeFileSymbols(uri);
+            this.files.delete(uriStr);
+            this.fileEntries.delete(uriStr);
+        }
+        this.folderFiles.delete(key);
+        this.scheduleCacheSave();
+        this.indexChanged.fire(undefined);
+    }
+
+    /**
+     * The indexed files of each workspace folder (by folder URI).
+     */
+    public getFolderStats(): Map<string, number> {
+        const stats = new Map<string, number>();
+        for (const [folder, files] of this.folderFiles) {
+            stats.set(folder, files.size);
+        }
+        return stats;
+    }
+
+    private indexFolders(folders: readonly vscode.WorkspaceFolder[]): Promise<void> {
+        if (this.scanning) return Promise.resolve();
+        this.scanning = this.runScan(folders).finally(() => { this.scanning = undefined; });
+        return this.scanning;
+    }
+
+    private async runScan(folders: readonly vscode.WorkspaceFolder[]) {
+        // Folders can be nested: each file is indexed once
+        const files = new Map<string, vscode.Uri>();
+        for (const folder of folders) {
+            for (const uri of await this.collectFolderFiles(folder)) {
+                files.set(uri.toString(), uri);
             }
         }
+        if (files.size === 0) return;
+        this.isIndexing = true;
+
+        // Symbols from the previous session, reused for files that did not change
+        let cachedEntries = new Map<string, CachedFile>();
+        try {
+            if (this.cache) cachedEntries = await this.cache.load();
+        } catch (e) {
+            this.log(`Failed to load index cache: ${e}`);
+        }
+        this.log(`Loaded ${cachedEntries.size} cached file entries.`);
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Indexing PHP files',
+                cancellable: true
+            }, (progress, token) => this.indexFiles(Array.from(files.values()), cachedEntries, progress, token));
+        } finally {
+            this.isIndexing = false;
+        }
+        this.indexChanged.fire(undefined);
 
-        // scanWorkspace implementation
-        let files: vscode.Uri[] = [];
-        this.files.clear(); // Reset stats
+        await this.saveCache();
+        console.log(`[Indexer] Index built: ${this.index.size} usage symbols, ${this.definitions.size} definitions, ${this.methods.size} methods, ${this.inheritance.size} classes with inheritance`);
+    }
 
-        // 1. Scan user files (Respects .gitignore)
-        const userFiles = await vscode.workspace.findFiles('**/*.php', '**/{vendor,node_modules,storage,var}/**');
-        files.push(...userFiles);
+    /**
+     * The PHP files of a workspace folder, with the folder's own exclusion settings.
+     */
+    private async collectFolderFiles(folder: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+        const config = vscode.workspace.getConfiguration('phpRefactorTools.indexer', folder.uri);
+        const excludeVendor = config.get('excludeVendor', true);
+        const excludeDirs = config.get('exclude', ['vendor', 'node_modules', 'storage', 'var']);
+        this.log(`Scanning folder ${folder.name} (${folder.uri.fsPath})`);
+
+        // 1. Scan user files (Respects .gitignore). Vendor is scanned separately below.
+        const excluded = Array.from(new Set(['vendor', ...excludeDirs]));
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(folder, '**/*.php'),
+            new vscode.RelativePattern(folder, `**/{${excluded.join(',')}}/**`)
+        );
 
         // 2. Scan vendor files if enabled (Bypasses .gitignore)
         if (!excludeVendor) {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (workspaceRoot) {
-                const vendorPath = path.join(workspaceRoot, 'vendor');
-                this.log(`Checking vendor path: ${vendorPath}`);
-
-                if (await fs.pathExists(vendorPath)) {
-                    vscode.window.setStatusBarMessage('Indexing vendor files (this may take a while)...');
-                    this.log('Vendor directory found. Starting recursive scan...');
-                    try {
-                        const vendorFiles = await this.scanDirRecursive(vendorPath);
-                        this.log(`Found ${vendorFiles.length} files in vendor.`);
-                        files.push(...vendorFiles);
-                    } catch (e) {
-                        this.log(`Error scanning vendor: ${e}`);
-                        console.error('Error scanning vendor:', e);
-                    }
-                } else {
-                    this.log('Vendor directory NOT found at ' + vendorPath);
+            const vendorPath = path.join(folder.uri.fsPath, 'vendor');
+            this.log(`Checking vendor path: ${vendorPath}`);
+
+            if (await fs.pathExists(vendorPath)) {
+                vscode.window.setStatusBarMessage('Indexing vendor files (this may take a while)...');
+                this.log('Vendor directory found. Starting recursive scan...');
+                try {
+                    const vendorFiles = await this.scanDirRecursive(vendorPath);
+                    this.log(`Found ${vendorFiles.length} files in vendor.`);
+                    files.push(...vendorFiles);
+                } catch (e) {
+                    this.log(`Error scanning vendor: ${e}`);
+                    console.error('Error scanning vendor:', e);
                 }
             } else {
-                this.log('No workspace root found.');
+                this.log('Vendor directory NOT found at ' + vendorPath);
             }
         } else {
-            this.log('Vendor indexing is DISABLED by configuration.');
+            this.log(`Vendor indexing is DISABLED by configuration for ${folder.name}.`);
         }
+        return files;
+    }
 
-        if (files.length === 0) {
-            this.isIndexing = false;
-            return;
+    /**
+     * Indexes the given files, parsing the ones that are not in the cache on a pool of
+     * worker threads. Stops dispatching new files as soon as the token is cancelled;
+     * whatever was indexed up to that point is kept.
+     */
+    private async indexFiles(
+        files: vscode.Uri[],
+        cachedEntries: Map<string, CachedFile>,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const workerScript = path.join(__dirname, 'indexWorker.js');
+        const pool = await fs.pathExists(workerScript) ? new IndexWorkerPool(workerScript) : undefined;
+        if (!pool) {
+            this.log(`Worker script not found at ${workerScript}, parsing on the main thread.`);
         }
-
-        const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
-        status.text = `$(sync~spin) Indexing PHP: 0/${files.length}`;
-        status.show();
+        const cancelListener = token.onCancellationRequested(() => {
+            this.log('Indexing cancelled by user.');
+            pool?.dispose();
+        });
 
         let count = 0;
-        const start = Date.now();
+        let reported = 0;
+        let reused = 0;
 
-        for (const uri of files) {
+        const reportProgress = () => {
+            count++;
+            if (count % 50 === 0 || count === files.length) {
+                progress.report({
+                    message: `${count}/${files.length}`,
+                    increment: ((count - reported) / files.length) * 100
+                });
+                reported = count;
+            }
+        };
+
+        const indexOne = async (uri: vscode.Uri) => {
+            const uriStr = uri.toString();
+            const cached = cachedEntries.get(uriStr);
             try {
-                if (Date.now() - start > 50) await new Promise(r => setTimeout(r, 0));
-                await this.scanFile(uri);
+                const stat = await fs.stat(uri.fsPath);
+                if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+                    this.updateIndexForFile(uriStr, uri.fsPath, cached);
+                    reused++;
+                } else if (!pool) {
+                    if (await this.indexFile(uri, cached)) reused++;
+                } else {
+                    const response = await pool.parse(uri.fsPath, cached?.hash);
+                    if (response.unchanged && cached) {
+                        this.updateIndexForFile(uriStr, uri.fsPath, { ...cached, mtime: response.mtime!, size: response.size! });
+                        reused++;
+                    } else if (response.entry) {
+                        this.updateIndexForFile(uriStr, uri.fsPath, response.entry);
+                    } else if (response.error && !token.isCancellationRequested) {
+                        this.log(`Failed to index ${uri.fsPath}: ${response.error}`);
+                    }
+                }
             } catch (e) {
-                console.error(`Failed to index ${uri.fsPath}`);
+                this.log(`Failed to index ${uri.fsPath}: ${e}`);
             }
-            count++;
-            if (count % 50 === 0) status.text = `$(sync~spin) Indexing PHP: ${count}/${files.length}`;
-        }
+            reportProgress();
+        };
 
-        status.text = `$(check) PHP Indexing Complete`;
-        setTimeout(() => status.dispose(), 3000);
+        try {
+            // Keep a bounded number of files in flight so the queue does not hold the whole workspace
+            const inFlight = new Set<Promise<void>>();
+            for (const uri of files) {
+                if (token.isCancellationRequested) break;
+                const job: Promise<void> = indexOne(uri).then(() => { inFlight.delete(job); });
+                inFlight.add(job);
+                if (inFlight.size >= 64) {
+                    await Promise.race(inFlight);
+                }
+            }
+            await Promise.all(inFlight);
+        } finally {
+            cancelListener.dispose();
+            await pool?.dispose();
+        }
 
-        this.isIndexing = false;
-        console.log(`[Indexer] Index built: ${this.index.size} usage symbols, ${this.definitions.size} definitions, ${this.methods.size} methods, ${this.inheritance.size} classes with inheritance`);
+        this.log(`Reused ${reused} cached files, parsed ${count - reused}.`);
     }
 
     public async scanFile(uri: vscode.Uri) {
         try {
-            this.files.add(uri.toString());
-            const content = await fs.readFile(uri.fsPath, 'utf8');
-            const ast = this.parser.parseCode(content, uri.fsPath);
-            this.updateIndexForFile(uri.toString(), uri.fsPath, ast);
+            await this.indexFile(uri);
+            this.scheduleCacheSave();
+            this.indexChanged.fire(uri);
         } catch (e) { }
     }
 
+    /**
+     * Indexes a single file, reusing the cached symbols when the file is unchanged
+     * (same mtime and size, or same content hash). Returns true if the cache was used.
+     */
+    private async indexFile(uri: vscode.Uri, cached?: CachedFile): Promise<boolean> {
+        const stat = await fs.stat(uri.fsPath);
+
+        if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+            this.updateIndexForFile(uri.toString(), uri.fsPath, cached);
+            return true;
+        }
+
+        const content = await fs.readFile(uri.fsPath, 'utf8');
+        const hash = hashContent(content);
+
+        if (cached && cached.hash === hash) {
+            this.updateIndexForFile(uri.toString(), uri.fsPath, { ...cached, mtime: stat.mtimeMs, size: stat.size });
+            return true;
+        }
+
+        const ast = this.parser.parseCode(content, uri.fsPath);
+        this.updateIndexForFile(uri.toString(), uri.fsPath, {
+            mtime: stat.mtimeMs,
+            size: stat.size,
+            hash: hash,
+            symbols: extractFileSymbols(ast)
+        });
+        return false;
+    }
+
     public removeFile(uri: vscode.Uri) {
         const uriStr = uri.toString();
+        this.removeFileSymbols(uri);
         this.files.delete(uriStr);
+        this.fileEntries.delete(uriStr);
+        this.getFolderPartition(uri)?.delete(uriStr);
+        this.scheduleCacheSave();
+        this.indexChanged.fire(uri);
+    }
+
+    /**
+     * Removes what a file contributed to the maps, using its recorded symbols so that
+     * re-indexing one file does not have to walk the whole index.
+     */
+    private removeFileSymbols(uri: vscode.Uri) {
+        const uriStr = uri.toString();
+        const entry = this.fileEntries.get(uriStr);
+        if (!entry) return;
+        this.subtypeIndex = undefined;
+
         // Remove from usage index
-        for (const files of this.index.values()) {
-            files.delete(uriStr);
-        }
-        // Remove from definitions
-        for (const [key, defs] of this.definitions.entries()) {
-            const filtered = defs.filter(d => d.path !== uri.fsPath);
-            if (filtered.length < defs.length) {
-                this.definitions.set(key, filtered);
+        for (const symbol of entry.symbols.usages) {
+            const files = this.index.get(symbol);
+            if (files) {
+                files.delete(uriStr);
+                if (files.size === 0) this.index.delete(symbol);
             }
         }
-        // Remove from methods
-        for (const [key, defs] of this.methods.entries()) {
-            const filtered = defs.filter(d => d.path !== uri.fsPath);
-            if (filtered.length < defs.length) {
-                this.methods.set(key, filtered);
+        for (const name of entry.symbols.memberNames) {
+            const files = this.memberIndex.get(name);
+            if (files) {
+                files.delete(uriStr);
+                if (files.size === 0) this.memberIndex.delete(name);
             }
         }
-        // Remove from inheritance (classes defined in this file)
-        for (const [className, info] of this.inheritance.entries()) {
-            const classDefs = this.definitions.get(className);
-            if (classDefs && classDefs.every(d => d.path === uri.fsPath)) {
-                this.inheritance.delete(className);
+        for (const name of entry.symbols.calledFunctions) {
+            const files = this.functionCallIndex.get(name);
+            if (files) {
+                files.delete(uriStr);
+                if (files.size === 0) this.functionCallIndex.delete(name);
+            }
+        }
+        // Remove from definitions, functions and constants
+        for (const [records, map, shortNames] of this.getNamedSymbolMaps(entry.symbols)) {
+            for (const def of records) {
+                const fqn = def.fqn || def.name;
+                this.removeDefsForPath(map, fqn, uri.fsPath);
+                if (!map.has(fqn)) {
+                    const fqns = shortNames.get(def.name);
+                    fqns?.delete(fqn);
+                    if (fqns && fqns.size === 0) shortNames.delete(def.name);
+                }
+            }
+        }
+        // Remove from methods and enum cases
+        for (const method of entry.symbols.methods) {
+            this.removeChildDefsForPath(this.methods, this.classMethodKeys, method.parent!, method.name, uri.fsPath);
+        }
+        for (const enumCase of entry.symbols.enumCases) {
+            this.removeChildDefsForPath(this.enumCases, this.classEnumCaseKeys, enumCase.parent!, enumCase.name, uri.fsPath);
+        }
+        for (const parent of new Set(entry.symbols.members.map(m => m.parent))) {
+            this.removeDefsForPath(this.members, parent, uri.fsPath);
+        }
+        // Remove from inheritance (classes no longer defined anywhere)
+        for (const info of entry.symbols.inheritance) {
+            if (!this.definitions.has(info.className)) {
+                this.inheritance.delete(info.className);
             }
         }
     }
 
-    public async rebuildIndex(): Promise<void> {
-        // Clear all indexes
+    /**
+     * Pairs a file's FQN-keyed records with the map and short name lookup they are merged into.
+     */
+    private getNamedSymbolMaps(symbols: FileSymbols): [SymbolRecord[], Map<string, SymbolDef[]>, Map<string, Set<string>>][] {
+        return [
+            [symbols.definitions, this.definitions, this.shortNames],
+            [symbols.functions, this.functions, this.functionShortNames],
+            [symbols.constants, this.constants, this.constantShortNames]
+        ];
+    }
+
+    private removeDefsForPath<T extends SymbolDef>(map: Map<string, T[]>, key: string, fsPath: string) {
+        const defs = map.get(key);
+        if (!defs) return;
+        const filtered = defs.filter(d => d.path !== fsPath);
+        if (filtered.length > 0) {
+            map.set(key, filtered);
+        } else {
+            map.delete(key);
+        }
+    }
+
+    /**
+     * Adds a method or enum case to its `ClassFQN::name` map and to the keys of its class.
+     */
+    private addChildDef(map: Map<string, SymbolDef[]>, keysByParent: Map<string, Set<string>>, def: SymbolDef & { parent: string }) {
+        const key = `${def.parent}::${def.name}`;
+        const defs = map.get(key) || [];
+        defs.push(def);
+        map.set(key, defs);
+
+        const keys = keysByParent.get(def.parent) || new Set<string>();
+        keys.add(key);
+        keysByParent.set(def.parent, keys);
+    }
+
+    private removeChildDefsForPath(map: Map<string, SymbolDef[]>, keysByParent: Map<string, Set<string>>, parent: string, name: string, fsPath: string) {
+        const key = `${parent}::${name}`;
+        this.removeDefsForPath(map, key, fsPath);
+        if (map.has(key)) return;
+
+        const keys = keysByParent.get(parent);
+        keys?.delete(key);
+        if (keys && keys.size === 0) keysByParent.delete(parent);
+    }
+
+    private clearIndex() {
         this.index.clear();
+        this.memberIndex.clear();
+        this.functionCallIndex.clear();
         this.definitions.clear();
+        this.shortNames.clear();
         this.methods.clear();
+        this.functions.clear();
+        this.functionShortNames.clear();
+        this.constants.clear();
+        this.constantShortNames.clear();
+        this.enumCases.clear();
+        this.classMethodKeys.clear();
+        this.classEnumCaseKeys.clear();
+        this.members.clear();
         this.inheritance.clear();
+        this.subtypeIndex = undefined;
+        this.fileEntries.clear();
+        this.files.clear();
+        this.folderFiles.clear();
+    }
+
+    public async rebuildIndex(): Promise<void> {
+        // Clear all indexes
+        this.clearIndex();
+
+        // A rebuild must not trust anything from the previous session
+        if (this.cache) {
+            await this.cache.clear();
+        }
 
         // Rescan workspace
         await this.scanWorkspace();
     }
 
-    private updateIndexForFile(uriStr: string, fsPath: string, ast: any) {
-        this.removeFile(vscode.Uri.parse(uriStr));
-
-        const symbolsFound = new Set<string>();
-        let currentNamespace = ''; // Track namespace context
+    private updateIndexForFile(uriStr: string, fsPath: string, entry: CachedFile) {
+        this.removeFileSymbols(vscode.Uri.parse(uriStr));
+        this.files.add(uriStr);
+        this.fileEntries.set(uriStr, entry);
+        this.getFolderPartition(vscode.Uri.parse(uriStr), true)?.add(uriStr);
 
-        const traverse = (nodes: any[]) => {
-            if (!nodes) return;
-            for (const node of nodes) {
-                // Capture namespace
-                if (node.kind === 'namespace') {
-                    currentNamespace = node.name;
-                }
+        const symbols: FileSymbols = entry.symbols;
 
-                // Definitions
-                if (node.kind === 'class' || node.kind === 'interface' || node.kind === 'trait') {
-                    const name = typeof node.name === 'string' ? node.name : node.name.name;
-                    symbolsFound.add(name);
+        for (const [records, map, shortNames] of this.getNamedSymbolMaps(symbols)) {
+            for (const def of records) {
+                const fqn = def.fqn || def.name;
+                const defs = map.get(fqn) || [];
+                defs.push({
+                    name: def.name,
+                    path: fsPath,
+                    kind: def.kind,
+                    range: this.toRange(def.range),
+                    fqn: fqn,
+                    backingType: def.backingType,
+                    returnType: def.returnType,
+                    docReturnType: def.docReturnType,
+                    params: def.params,
+                    summary: def.summary
+                });
+                map.set(fqn, defs);
 
-                    // Add to Definitions
-                    const defs = this.definitions.get(name) || [];
+                const fqns = shortNames.get(def.name) || new Set<string>();
+                fqns.add(fqn);
+                shortNames.set(def.name, fqns);
+            }
+        }
 
-                    let range: vscode.Range | undefined;
-                    if (node.loc) {
-                        range = new vscode.Range(
-                            new vscode.Position(node.loc.start.line - 1, node.loc.start.column),
-                            new vscode.Position(node.loc.end.line - 1, node.loc.end.column)
-                        );
-                    }
+        for (const method of symbols.methods) {
+            this.addChildDef(this.methods, this.classMethodKeys, {
+                name: method.name,
+                path: fsPath,
+                kind: 'method',
+                range: this.toRange(method.range),
+                parent: method.parent!,
+                visibility: method.visibility,
+                isStatic: method.isStatic,
+                returnType: method.returnType,
+                docReturnType: method.docReturnType,
+                params: method.params,
+                summary: method.summary
+            });
+        }
 
-                    // Build FQN from current namespace context
-                    let fqn = name;
-                    if (currentNamespace) {
-                        fqn = `${currentNamespace}\\${name}`;
-                    }
+        for (const enumCase of symbols.enumCases) {
+            this.addChildDef(this.enumCases, this.classEnumCaseKeys, {
+                name: enumCase.name,
+                path: fsPath,
+                kind: 'enumCase',
+                range: this.toRange(enumCase.range),
+                parent: enumCase.parent!,
+                summary: enumCase.summary
+            });
+        }
 
-                    defs.push({
-                        name: name,
-                        path: fsPath,
-                        kind: node.kind,
-                        range: range,
-                        fqn: fqn
-                    });
-                    this.definitions.set(name, defs);
-
-                    // Track Inheritance
-                    const inheritanceInfo: InheritanceInfo = {
-                        className: name,
-                        implements: []
-                    };
-
-                    if (node.extends) {
-                        const extName = typeof node.extends === 'string' ? node.extends :
-                            (node.extends.name ? node.extends.name :
-                                (typeof node.extends.name === 'string' ? node.extends.name : node.extends.name.name));
-                        inheritanceInfo.extends = extName;
-                    }
+        for (const member of symbols.members) {
+            const memberDefs = this.members.get(member.parent) || [];
+            memberDefs.push({
+                name: member.name,
+                path: fsPath,
+                kind: member.kind,
+                range: this.toRange(member.range),
+                parent: member.parent,
+                visibility: member.visibility,
+                isStatic: member.isStatic,
+                isReadonly: member.isReadonly,
+                promoted: member.promoted,
+                type: member.type,
+                docType: member.docType,
+                summary: member.summary
+            });
+            this.members.set(member.parent, memberDefs);
+        }
 
-                    if (node.implements && Array.isArray(node.implements)) {
-                        for (const impl of node.implements) {
-                            const implName = typeof impl === 'string' ? impl : (impl.name || impl.name?.name);
-                            if (implName) {
-                                inheritanceInfo.implements.push(implName);
-                            }
-                        }
-                    }
+        for (const info of symbols.inheritance) {
+            this.inheritance.set(info.className, info);
+        }
+        this.subtypeIndex = undefined;
 
-                    this.inheritance.set(name, inheritanceInfo);
-
-                    // Track Methods within this class/interface/trait
-                    const traverseBody = (bodyNodes: any[]) => {
-                        if (!bodyNodes) return;
-                        for (const bodyNode of bodyNodes) {
-                            if (bodyNode.kind === 'method') {
-                                const methodName = typeof bodyNode.name === 'string' ? bodyNode.name : bodyNode.name.name;
-                                const qualifiedName = `${name}::${methodName}`;
-
-                                let methodRange: vscode.Range | undefined;
-                                if (bodyNode.loc) {
-                                    methodRange = new vscode.Range(
-                                        new vscode.Position(bodyNode.loc.start.line - 1, bodyNode.loc.start.column),
-                                        new vscode.Position(bodyNode.loc.end.line - 1, bodyNode.loc.end.column)
-                                    );
-                                }
-
-                                const methodDefs = this.methods.get(qualifiedName) || [];
-                                methodDefs.push({
-                                    name: methodName,
-                                    path: fsPath,
-                                    kind: 'method',
-                                    range: methodRange,
-                                    parent: name
-                                });
-                                this.methods.set(qualifiedName, methodDefs);
-                            }
-                        }
-                    };
-
-                    if (node.body) {
-                        if (Array.isArray(node.body)) {
-                            traverseBody(node.body);
-                        } else if (node.body.children) {
-                            traverseBody(node.body.children);
-                        }
-                    }
-                }
+        // Update Usage Index
+        for (const symbol of symbols.usages) {
+            if (!this.index.has(symbol)) this.index.set(symbol, new Set());
+            this.index.get(symbol)!.add(uriStr);
+        }
+        for (const name of symbols.memberNames) {
+            if (!this.memberIndex.has(name)) this.memberIndex.set(name, new Set());
+            this.memberIndex.get(name)!.add(uriStr);
+        }
+        for (const name of symbols.calledFunctions) {
+            if (!this.functionCallIndex.has(name)) this.functionCallIndex.set(name, new Set());
+            this.functionCallIndex.get(name)!.add(uriStr);
+        }
+    }
 
-                // Usages
-                else if (node.kind === 'usegroup') {
-                    for (const item of node.items) {
-                        const parts = item.name.split('\\');
-                        symbolsFound.add(parts[parts.length - 1]);
-                    }
-                }
-                else if (node.kind === 'name') {
-                    const parts = node.name.split('\\');
-                    symbolsFound.add(parts[parts.length - 1]);
-                }
+    /**
+     * The indexed files of the workspace folder containing the file.
+     */
+    private getFolderPartition(uri: vscode.Uri, create = false): Set<string> | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) return undefined;
+        const key = folder.uri.toString();
+        let files = this.folderFiles.get(key);
+        if (!files && create) {
+            files = new Set();
+            this.folderFiles.set(key, files);
+        }
+        return files;
+    }
 
-                if (node.children) traverse(node.children);
-                if (node.body) {
-                    if (Array.isArray(node.body)) traverse(node.body);
-                    else if (node.body.children) traverse(node.body.children);
-                }
-            }
-        };
+    private toRange(range?: SerializedRange): vscode.Range | undefined {
+        if (!range) return undefined;
+        return new vscode.Range(
+            new vscode.Position(range[0], range[1]),
+            new vscode.Position(range[2], range[3])
+        );
+    }
 
-        if (ast.children) traverse(ast.children);
+    private scheduleCacheSave() {
+        if (!this.cache || this.isIndexing) return;
+        if (this.cacheSaveTimeout) {
+            clearTimeout(this.cacheSaveTimeout);
+        }
+        this.cacheSaveTimeout = setTimeout(() => {
+            this.saveCache();
+        }, 5000);
+    }
 
-        // Update Usage Index
-        for (const symbol of symbolsFound) {
-            if (!this.index.has(symbol)) this.index.set(symbol, new Set());
-            this.index.get(symbol)!.add(uriStr);
+    public async saveCache(): Promise<void> {
+        if (!this.cache) return;
+        if (this.cacheSaveTimeout) {
+            clearTimeout(this.cacheSaveTimeout);
+            this.cacheSaveTimeout = undefined;
+        }
+        try {
+            await this.cache.save(this.fileEntries);
+        } catch (e) {
+            this.log(`Failed to save index cache: ${e}`);
         }
     }
 
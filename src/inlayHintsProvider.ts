@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, ParamRecord } from './indexer';
+import { NameResolver } from './nameResolver';
+import { formatType } from './signature';
+import { TypeInference, WalkContext, callableParamTypes, getNodeName, walkWithContext } from './typeInference';
+
+/**
+ * Built-in functions taking a callback over the elements of an array argument. They are
+ * not in the index, so their callbacks are typed from the array instead.
+ */
+const ARRAY_CALLBACKS: Record<string, { callback: number, array: number, elementParams: number, mode?: number }> = {
+    array_map: { callback: 0, array: 1, elementParams: 1 },
+    // `ARRAY_FILTER_USE_KEY`/`ARRAY_FILTER_USE_BOTH` change what the callback receives
+    array_filter: { callback: 1, array: 0, elementParams: 1, mode: 2 },
+    array_walk: { callback: 1, array: 0, elementParams: 1 },
+    usort: { callback: 1, array: 0, elementParams: 2 },
+    uasort: { callback: 1, array: 0, elementParams: 2 }
+};
+
+function toPosition(point: any): vscode.Position {
+    return new vscode.Position(point.line - 1, point.column);
+}
+
+/**
+ * Literal arguments are the ones whose meaning is unclear without the parameter name.
+ */
+function isLiteral(node: any): boolean {
+    if (!node) return false;
+    if (node.kind === 'unary') return (node.type === '-' || node.type === '+') && node.what?.kind === 'number';
+    return ['string', 'number', 'boolean', 'nullkeyword'].includes(node.kind);
+}
+
+/**
+ * The parameter an argument is passed to: everything past a variadic parameter belongs to it.
+ */
+function paramAt(params: ParamRecord[], index: number): ParamRecord | undefined {
+    if (index < params.length) return params[index];
+    const last = params[params.length - 1];
+    return last?.variadic ? last : undefined;
+}
+
+/**
+ * Shows parameter names before literal arguments (`send(to: 'x', retry: true)`), and the
+ * inferred types of untyped closure parameters and `foreach` value variables. Signatures
+ * and types come from the index.
+ */
+export class PhpInlayHintsProvider implements vscode.InlayHintsProvider {
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        // Hints are requested while typing, so the file rarely parses cleanly
+        this.parser = new Engine({
+            parser: { extractDoc: true, suppressErrors: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    public provideInlayHints(document: vscode.TextDocument, range: vscode.Range, token: vscode.CancellationToken): vscode.InlayHint[] {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+
+        const start = document.offsetAt(range.start);
+        const end = document.offsetAt(range.end);
+        const hints: vscode.InlayHint[] = [];
+        walkWithContext(ast, (node, context, resolver) => {
+            if (token.isCancellationRequested || !node.loc || node.loc.end.offset < start || node.loc.start.offset > end) return;
+
+            if (node.kind === 'call' || node.kind === 'new') {
+                this.addCallHints(hints, node, context, resolver);
+            } else if (node.kind === 'foreach') {
+                this.addForeachHint(hints, node, context, resolver);
+            }
+        });
+
+        const visible = hints.filter(hint => range.contains(hint.position));
+        if (visible.length > 0) {
+            this.outputChannel.appendLine(`[InlayHints] ${visible.length} hints in ${document.uri.fsPath}`);
+        }
+        return visible;
+    }
+
+    private addCallHints(hints: vscode.InlayHint[], node: any, context: WalkContext, resolver: NameResolver) {
+        const args: any[] = node.arguments || [];
+        if (args.length === 0) return;
+
+        const builtin = this.getArrayCallback(node, resolver);
+        if (builtin) {
+            if (builtin.mode !== undefined && args.length > builtin.mode) return;
+            const elements = this.typeInference.inferElementTypes(args[builtin.array], context, resolver, node.loc.start.offset);
+            const type = elements.map(formatType).join('|');
+            this.addClosureHints(hints, args[builtin.callback], Array(builtin.elementParams).fill(type));
+            return;
+        }
+
+        // Overloads across a hierarchy share their parameters often enough, use the first
+        const def = this.typeInference.findCalleeDefinitions(node, context, resolver)[0];
+        const params = def?.params || [];
+        if (params.length === 0) return;
+
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            // Arguments after a spread or a named argument have no position
+            if (arg.kind === 'variadic' || arg.kind === 'namedargument') break;
+
+            const param = paramAt(params, i);
+            if (!param) break;
+
+            if (isLiteral(arg) && arg.loc) {
+                const hint = new vscode.InlayHint(toPosition(arg.loc.start), `${param.name}:`, vscode.InlayHintKind.Parameter);
+                hint.paddingRight = true;
+                hints.push(hint);
+            } else if (arg.kind === 'closure' || arg.kind === 'arrowfunc') {
+                const types = callableParamTypes(param.docType || param.type).map(formatType);
+                this.addClosureHints(hints, arg, types);
+            }
+        }
+    }
+
+    /**
+     * The array callback signature when the call is to one of `ARRAY_CALLBACKS`.
+     */
+    private getArrayCallback(node: any, resolver: NameResolver) {
+        if (node.kind !== 'call' || node.what?.kind !== 'name') return undefined;
+        const fqn = resolver.resolveFunctionName(node.what.name, node.what.resolution);
+        // Namespaced calls fall back to the global function
+        const name = (node.what.resolution === 'uqn' ? node.what.name : fqn).toLowerCase();
+        return Object.prototype.hasOwnProperty.call(ARRAY_CALLBACKS, name) ? ARRAY_CALLBACKS[name] : undefined;
+    }
+
+    /**
+     * Type hints before the untyped parameters of a closure or arrow function passed where
+     * a `callable(...)` is expected.
+     */
+    private addClosureHints(hints: vscode.InlayHint[], closure: any, types: string[]) {
+        if (closure?.kind !== 'closure' && closure?.kind !== 'arrowfunc') return;
+        (closure.arguments || []).forEach((param: any, i: number) => {
+            const type = types[i];
+            if (param.type || !type || type === 'mixed' || !param.loc) return;
+            const hint = new vscode.InlayHint(toPosition(param.loc.start), type, vscode.InlayHintKind.Type);
+            hint.paddingRight = true;
+            hints.push(hint);
+        });
+    }
+
+    /**
+     * `foreach ($users as $user: User)`
+     */
+    private addForeachHint(hints: vscode.InlayHint[], node: any, context: WalkContext, resolver: NameResolver) {
+        const value = node.value;
+        if (value?.kind !== 'variable' || !getNodeName(value) || !value.loc) return;
+
+        const types = this.typeInference.inferElementTypes(node.source, context, resolver, node.loc.start.offset);
+        if (types.length === 0) return;
+        hints.push(new vscode.InlayHint(toPosition(value.loc.end), `: ${types.map(formatType).join('|')}`, vscode.InlayHintKind.Type));
+    }
+}
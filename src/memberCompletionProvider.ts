@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, MemberDef, SymbolDef, getShortName } from './indexer';
+import { formatFunctionSignature, formatMemberSignature } from './signature';
+import { TypeInference, WalkContext, walkWithContext } from './typeInference';
+
+const LOOKUP_KINDS = ['propertylookup', 'nullsafepropertylookup', 'staticlookup'];
+
+const CLASS_KEYWORD_KINDS = ['selfreference', 'staticreference', 'parentreference'];
+
+interface MemberAccess {
+    receivers: string[];
+    isStatic: boolean; // `Foo::` rather than `$foo->`
+    allowInstanceMethods: boolean; // `parent::method()` and friends from an instance method
+    callerFqn?: string; // The class the access is written in, for visibility
+}
+
+/**
+ * Suggests the methods, properties, constants and enum cases available after `->` and `::`,
+ * as seen from the receiver's type (inherited and trait members included). Members the
+ * call site cannot access are left out.
+ */
+export class PhpMemberCompletionProvider implements vscode.CompletionItemProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        // The member name is still being typed, so the file rarely parses cleanly
+        this.parser = new Engine({
+            parser: { extractDoc: true, suppressErrors: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    public provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.CompletionContext
+    ): vscode.CompletionItem[] {
+        const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+        const typed = linePrefix.match(/(?:->|::)(\$?[A-Za-z_]\w*|\$)?$/);
+        if (!typed) return [];
+
+        const partial = typed[1] || '';
+        const wordStart = document.offsetAt(position) - partial.length;
+        const access = this.findMemberAccess(document.getText().substring(0, wordStart), wordStart);
+        if (!access || access.receivers.length === 0) return [];
+
+        const range = new vscode.Range(position.translate(0, -partial.length), position);
+        const items = this.createItems(access, range, token);
+        this.outputChannel.appendLine(`[Completion] ${items.length} member suggestions for: ${access.receivers.join(', ')}`);
+        return items;
+    }
+
+    /**
+     * Parses the text up to the cursor with a placeholder member name, and resolves the
+     * types of the lookup's receiver.
+     */
+    private findMemberAccess(before: string, wordStart: number): MemberAccess | undefined {
+        let ast;
+        try {
+            ast = this.parser.parseCode(before + 'completion;', 'completion.php');
+        } catch (e) {
+            return undefined;
+        }
+
+        let access: MemberAccess | undefined;
+        walkWithContext(ast, (node, context, resolver) => {
+            if (access || !LOOKUP_KINDS.includes(node.kind) || node.offset?.loc?.start.offset !== wordStart) return;
+
+            if (node.kind !== 'staticlookup') {
+                access = {
+                    receivers: this.typeInference.inferClassTypes(node.what, context, resolver, node.loc.start.offset),
+                    isStatic: false,
+                    allowInstanceMethods: true,
+                    callerFqn: context.classFqn
+                };
+                return;
+            }
+
+            const classFqn = this.typeInference.resolveClassReference(node.what, context, resolver);
+            access = {
+                // `$object::CONSTANT`
+                receivers: classFqn ? [classFqn] : this.typeInference.inferClassTypes(node.what, context, resolver, node.loc.start.offset),
+                isStatic: true,
+                allowInstanceMethods: this.isClassKeyword(node.what) && this.isInstanceContext(context),
+                callerFqn: context.classFqn
+            };
+        });
+        return access;
+    }
+
+    private isClassKeyword(node: any): boolean {
+        if (CLASS_KEYWORD_KINDS.includes(node?.kind)) return true;
+        return node?.kind === 'name' && ['self', 'static', 'parent'].includes(node.name.toLowerCase());
+    }
+
+    private isInstanceContext(context: WalkContext): boolean {
+        return context.callable?.target.kind === 'method' && !context.callable.node.isStatic;
+    }
+
+    private createItems(access: MemberAccess, range: vscode.Range, token: vscode.CancellationToken): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+        // A member declared again in a subclass hides the parent's one
+        const seen = new Set<string>();
+        const callerOrder = access.callerFqn ? this.indexer.getMemberLookupOrder(access.callerFqn) : [];
+
+        for (const receiver of access.receivers) {
+            this.indexer.getMemberLookupOrder(receiver).forEach((fqn, depth) => {
+                if (token.isCancellationRequested) return;
+                const sortPrefix = String(depth).padStart(3, '0');
+
+                for (const method of this.indexer.getClassMethods(fqn)) {
+                    const key = `method:${method.name.toLowerCase()}`;
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    if (!this.isMethodAvailable(method, access) || !this.isAccessible(method, access, callerOrder)) continue;
+                    items.push(this.createMethodItem(method, range, sortPrefix));
+                }
+
+                for (const member of this.indexer.getMembers(fqn)) {
+                    const key = `${member.kind}:${member.name}`;
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    const available = member.kind === 'classConstant'
+                        ? access.isStatic
+                        : member.isStatic === access.isStatic;
+                    if (!available || !this.isAccessible(member, access, callerOrder)) continue;
+                    items.push(this.createMemberItem(member, access, range, sortPrefix));
+                }
+
+                if (!access.isStatic) return;
+                for (const enumCase of this.indexer.getClassEnumCases(fqn)) {
+                    const key = `classConstant:${enumCase.name}`;
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    const item = new vscode.CompletionItem(
+                        { label: enumCase.name, description: getShortName(fqn) },
+                        vscode.CompletionItemKind.EnumMember
+                    );
+                    item.detail = `case ${enumCase.name}`;
+                    item.documentation = enumCase.summary ? new vscode.MarkdownString(enumCase.summary) : undefined;
+                    item.range = range;
+                    item.sortText = sortPrefix + enumCase.name;
+                    items.push(item);
+                }
+            });
+        }
+
+        if (access.isStatic) {
+            const item = new vscode.CompletionItem('class', vscode.CompletionItemKind.Keyword);
+            item.detail = 'Fully qualified class name';
+            item.range = range;
+            item.sortText = '999class';
+            items.push(item);
+        }
+        return items;
+    }
+
+    /**
+     * `->` calls instance methods, `::` static ones (and instance ones of the class itself
+     * or its parent, from an instance method). Magic methods are only offered as
+     * `parent::__construct()` and the like.
+     */
+    private isMethodAvailable(method: SymbolDef, access: MemberAccess): boolean {
+        if (method.name.startsWith('__')) {
+            return access.isStatic && access.allowInstanceMethods && method.name.toLowerCase() === '__construct';
+        }
+        if (!access.isStatic) return !method.isStatic;
+        return !!method.isStatic || access.allowInstanceMethods;
+    }
+
+    /**
+     * Private members are only visible from the declaring class (or a class using the
+     * declaring trait), protected ones from the same class hierarchy.
+     */
+    private isAccessible(def: SymbolDef, access: MemberAccess, callerOrder: string[]): boolean {
+        const visibility = def.visibility || 'public';
+        if (visibility === 'public') return true;
+        if (!access.callerFqn || !def.parent) return false;
+
+        if (visibility === 'private') {
+            return def.parent === access.callerFqn || this.getUsedTraits(access.callerFqn).includes(def.parent);
+        }
+        return callerOrder.includes(def.parent) || this.indexer.getMemberLookupOrder(def.parent).includes(access.callerFqn);
+    }
+
+    /**
+     * The traits a class uses itself (and the traits those use), whose members are copied
+     * into it. Traits used by parent classes are not included.
+     */
+    private getUsedTraits(classFqn: string): string[] {
+        const traits: string[] = [];
+        const collect = (fqn: string) => {
+            for (const trait of this.indexer.getInheritanceInfo(fqn)?.traits || []) {
+                if (traits.includes(trait)) continue;
+                traits.push(trait);
+                collect(trait);
+            }
+        };
+        collect(classFqn);
+        return traits;
+    }
+
+    private createMethodItem(method: SymbolDef, range: vscode.Range, sortPrefix: string): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(
+            { label: method.name, description: method.parent ? getShortName(method.parent) : undefined },
+            vscode.CompletionItemKind.Method
+        );
+        item.detail = formatFunctionSignature(method);
+        item.documentation = method.summary ? new vscode.MarkdownString(method.summary) : undefined;
+        item.range = range;
+        item.sortText = sortPrefix + method.name;
+        if (method.params && method.params.length > 0) {
+            item.insertText = new vscode.SnippetString(`${method.name}($0)`);
+            item.command = { title: 'Trigger Parameter Hints', command: 'editor.action.triggerParameterHints' };
+        } else {
+            item.insertText = `${method.name}()`;
+        }
+        return item;
+    }
+
+    private createMemberItem(member: MemberDef, access: MemberAccess, range: vscode.Range, sortPrefix: string): vscode.CompletionItem {
+        const isConstant = member.kind === 'classConstant';
+        // Static properties keep their `$`: `Foo::$instance`
+        const label = !isConstant && access.isStatic ? `$${member.name}` : member.name;
+        const item = new vscode.CompletionItem(
+            { label, description: getShortName(member.parent) },
+            isConstant ? vscode.CompletionItemKind.Constant : vscode.CompletionItemKind.Property
+        );
+        item.detail = formatMemberSignature(member);
+        item.documentation = member.summary ? new vscode.MarkdownString(member.summary) : undefined;
+        item.range = range;
+        item.sortText = sortPrefix + member.name;
+        return item;
+    }
+}
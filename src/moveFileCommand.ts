@@ -19,7 +19,8 @@ export async function moveFileWithRefactor(
         return;
     }
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    // Paths are relative to the folder the file is in
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(currentFile)?.uri.fsPath;
     if (!workspaceRoot) {
         vscode.window.showErrorMessage('No workspace folder found');
         return;
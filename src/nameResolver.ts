@@ -0,0 +1,367 @@
+/**
+ * Resolves class, function and constant names to fully qualified names following PHP's
+ * name resolution rules (current namespace, `use` imports and aliases, leading backslash,
+ * `namespace\` relative names).
+ *
+ * Like the symbol extractor, this has no vscode dependency so it can run in the index worker.
+ */
+
+import { getDocTypes } from './docblock';
+
+const BUILTIN_TYPES = [
+    'int', 'integer', 'string', 'bool', 'boolean', 'float', 'double', 'array', 'object', 'callable',
+    'iterable', 'void', 'mixed', 'never', 'null', 'true', 'false', 'resource'
+];
+
+const SPECIAL_CLASS_NAMES = ['self', 'static', 'parent'];
+
+// Types that only exist in PHPDoc (hyphenated ones like `class-string` are skipped anyway)
+const DOC_PSEUDO_TYPES = ['list', 'scalar', 'numeric', 'number'];
+
+// Candidate names inside a PHPDoc type, filtered with isDocClassName
+const DOC_NAME_PATTERN = /\$?\\?[A-Za-z_][\w\\-]*/g;
+
+/**
+ * Whether a name matched in a PHPDoc type stands for a class: not a variable, a shape key
+ * (`array{id: int}`) or a PHPDoc pseudo type (`list`, `class-string`, ...).
+ */
+function isDocClassName(type: string, name: string, offset: number): boolean {
+    const isShapeKey = type[offset + name.length] === ':' && type[offset + name.length + 1] !== ':';
+    return !(name.startsWith('$') || name.includes('-') || isShapeKey ||
+        isSpecialClassName(name) || DOC_PSEUDO_TYPES.includes(name.toLowerCase()));
+}
+
+function normalizeName(name: string): string {
+    return name.startsWith('\\') ? name.substring(1) : name;
+}
+
+export function isBuiltinType(name: string): boolean {
+    return BUILTIN_TYPES.includes(name.toLowerCase());
+}
+
+export function isSpecialClassName(name: string): boolean {
+    return SPECIAL_CLASS_NAMES.includes(name.toLowerCase());
+}
+
+type UseType = 'class' | 'function' | 'const';
+
+export class NameResolver {
+    private namespace = '';
+    // Class and function aliases are case-insensitive in PHP, constants are not
+    private classUses: Map<string, string> = new Map();
+    private functionUses: Map<string, string> = new Map();
+    private constantUses: Map<string, string> = new Map();
+
+    public getNamespace(): string {
+        return this.namespace;
+    }
+
+    /**
+     * Enters a namespace. Imports only apply to the namespace block they are declared in.
+     */
+    public setNamespace(namespace: string) {
+        this.namespace = namespace || '';
+        this.classUses.clear();
+        this.functionUses.clear();
+        this.constantUses.clear();
+    }
+
+    public addUse(fqn: string, alias?: string, type: UseType = 'class') {
+        const name = normalizeName(fqn);
+        const shortName = alias || name.split('\\').pop()!;
+        if (type === 'function') {
+            this.functionUses.set(shortName.toLowerCase(), name);
+        } else if (type === 'const') {
+            this.constantUses.set(shortName, name);
+        } else {
+            this.classUses.set(shortName.toLowerCase(), name);
+        }
+    }
+
+    /**
+     * Registers the imports of a php-parser `usegroup` node, including group syntax
+     * (`use Foo\{Bar, Baz as Qux}`) and `use function` / `use const`.
+     */
+    public addUseGroup(node: any) {
+        if (!node || !node.items) return;
+        const prefix = typeof node.name === 'string' && node.name ? node.name + '\\' : '';
+        for (const item of node.items) {
+            if (typeof item.name !== 'string') continue;
+            const type: UseType = item.type || node.type || 'class';
+            this.addUse(prefix + item.name, item.alias?.name, type);
+        }
+    }
+
+    /**
+     * Resolves a class name as written in source. `self`, `static`, `parent` and builtin
+     * types are returned unchanged.
+     *
+     * @param resolution php-parser's `resolution` of the name node, derived from the text if omitted
+     */
+    public resolveClassName(name: string, resolution?: string): string {
+        if (!name) return name;
+        if (isSpecialClassName(name) || (!name.includes('\\') && isBuiltinType(name))) {
+            return name;
+        }
+
+        const kind = resolution || NameResolver.getResolution(name);
+        if (kind === 'fqn') {
+            return normalizeName(name);
+        }
+        if (kind === 'rn') {
+            const relative = name.replace(/^namespace\\/i, '');
+            return this.qualify(relative);
+        }
+
+        // Qualified and unqualified names: the first segment may be an import alias
+        const parts = name.split('\\');
+        const imported = this.classUses.get(parts[0].toLowerCase());
+        if (imported) {
+            return [imported, ...parts.slice(1)].join('\\');
+        }
+        return this.qualify(name);
+    }
+
+    /**
+     * Resolves a function name. Unqualified, non-imported names resolve to the current
+     * namespace; PHP falls back to the global function at runtime, which callers can try
+     * with the short name.
+     */
+    public resolveFunctionName(name: string, resolution?: string): string {
+        const kind = resolution || NameResolver.getResolution(name);
+        if (kind === 'uqn') {
+            const imported = this.functionUses.get(name.toLowerCase());
+            if (imported) return imported;
+            return this.qualify(name);
+        }
+        return this.resolveClassName(name, kind);
+    }
+
+    /**
+     * Resolves a constant name, with the same global fallback caveat as functions.
+     */
+    public resolveConstantName(name: string, resolution?: string): string {
+        const kind = resolution || NameResolver.getResolution(name);
+        if (kind === 'uqn') {
+            const imported = this.constantUses.get(name);
+            if (imported) return imported;
+            return this.qualify(name);
+        }
+        return this.resolveClassName(name, kind);
+    }
+
+    /**
+     * Resolves a php-parser `name` node (or a plain string) as a class name.
+     */
+    public resolveNameNode(node: any): string | null {
+        if (!node) return null;
+        if (typeof node === 'string') return this.resolveClassName(node);
+        if (typeof node.name === 'string') return this.resolveClassName(node.name, node.resolution);
+        return null;
+    }
+
+    /**
+     * Turns a php-parser type node into a type string with class names resolved to FQNs,
+     * e.g. `?App\Repo` or `App\A|null`.
+     *
+     * @param nullable The `nullable` flag of the node owning the type (`?Type`)
+     */
+    public resolveTypeNode(node: any, nullable?: boolean): string | undefined {
+        if (!node) return undefined;
+        let type: string | undefined;
+        if (node.kind === 'uniontype' || node.kind === 'intersectiontype') {
+            const separator = node.kind === 'uniontype' ? '|' : '&';
+            type = (node.types || []).map((t: any) => this.resolveTypeNode(t)).filter(Boolean).join(separator);
+        } else if (node.kind === 'typereference') {
+            type = node.raw || node.name;
+        } else if (node.kind === 'name') {
+            type = this.resolveClassName(node.name, node.resolution);
+        }
+        if (type && nullable) {
+            type = '?' + type;
+        }
+        return type;
+    }
+
+    /**
+     * Resolves the class names inside a PHPDoc type (`Repo[]`, `Collection<int, User>|null`).
+     * PHPDoc pseudo types (`list`, `class-string`, ...) and builtin types are kept as written.
+     */
+    public resolveDocType(type: string): string {
+        return type.replace(DOC_NAME_PATTERN, (name: string, offset: number) => {
+            return isDocClassName(type, name, offset) ? this.resolveClassName(name) : name;
+        });
+    }
+
+    private qualify(name: string): string {
+        return this.namespace ? `${this.namespace}\\${name}` : name;
+    }
+
+    private static getResolution(name: string): string {
+        if (name.startsWith('\\')) return 'fqn';
+        if (/^namespace\\/i.test(name)) return 'rn';
+        if (name.includes('\\')) return 'qn';
+        return 'uqn';
+    }
+}
+
+export type ClassNameContext =
+    'use' | 'extends' | 'implements' | 'trait' | 'new' | 'static' | 'instanceof' | 'catch' | 'type' | 'attribute' | 'doc';
+
+export interface ClassNameOccurrence {
+    fqn: string;
+    written: string; // The name as it appears in source
+    loc: any; // php-parser location of the name
+    context: ClassNameContext;
+}
+
+// Properties of each node kind that hold class names (everything else named is a function or constant)
+const CLASS_NAME_POSITIONS: { [kind: string]: { [key: string]: ClassNameContext } } = {
+    class: { extends: 'extends', implements: 'implements' },
+    interface: { extends: 'extends' },
+    enum: { implements: 'implements' },
+    traituse: { traits: 'trait' },
+    new: { what: 'new' },
+    staticlookup: { what: 'static' },
+    catch: { what: 'catch' },
+    parameter: { type: 'type' },
+    property: { type: 'type' },
+    classconstant: { type: 'type' },
+    method: { type: 'type' },
+    function: { type: 'type' },
+    closure: { type: 'type' },
+    arrowfunc: { type: 'type' },
+    uniontype: { types: 'type' },
+    intersectiontype: { types: 'type' }
+};
+
+/**
+ * The php-parser location of `text[index, index + length)`, where `text` starts at `origin`.
+ */
+function spanLoc(origin: any, text: string, index: number, length: number): any {
+    const positionAt = (i: number) => {
+        const before = text.substring(0, i);
+        const lastNewline = before.lastIndexOf('\n');
+        const newlines = before.split('\n').length - 1;
+        return {
+            line: origin.line + newlines,
+            column: lastNewline === -1 ? origin.column + i : i - lastNewline - 1,
+            offset: origin.offset + i
+        };
+    };
+    return { start: positionAt(index), end: positionAt(index + length) };
+}
+
+/**
+ * Walks a php-parser AST and reports every place a class name is referenced, resolved to
+ * its FQN: code, attributes and the types of PHPDoc tags. `self`/`static`/`parent` and
+ * builtin types are skipped.
+ *
+ * @param source The parsed code. php-parser does not locate attribute names, so without it
+ *               attributes are reported with the location of the whole attribute.
+ */
+export function walkClassNames(ast: any, visit: (occurrence: ClassNameOccurrence) => void, source?: string): void {
+    const resolver = new NameResolver();
+    // Comments can be attached to several nodes
+    const seenComments = new Set<any>();
+
+    const report = (value: any, context: ClassNameContext) => {
+        const list = Array.isArray(value) ? value : [value];
+        for (const item of list) {
+            if (!item || typeof item !== 'object') continue;
+            if (item.kind === 'name' && typeof item.name === 'string') {
+                const fqn = resolver.resolveClassName(item.name, item.resolution);
+                if (!isSpecialClassName(fqn) && !(isBuiltinType(fqn) && !item.name.includes('\\'))) {
+                    visit({ fqn, written: item.name, loc: item.loc, context });
+                }
+            } else {
+                walk(item);
+            }
+        }
+    };
+
+    const walk = (node: any) => {
+        if (!node || typeof node !== 'object') return;
+        if (Array.isArray(node)) {
+            for (const child of node) walk(child);
+            return;
+        }
+
+        if (node.kind === 'namespace') {
+            resolver.setNamespace(node.name);
+        } else if (node.kind === 'usegroup') {
+            resolver.addUseGroup(node);
+            const prefix = typeof node.name === 'string' && node.name ? node.name + '\\' : '';
+            for (const item of node.items || []) {
+                const type = item.type || node.type;
+                if (type === 'function' || type === 'const' || typeof item.name !== 'string') continue;
+                const fqn = normalizeName(prefix + item.name);
+                // The item also covers the alias
+                const loc = { start: item.loc.start, end: { ...item.loc.start, column: item.loc.start.column + item.name.length, offset: item.loc.start.offset + item.name.length } };
+                visit({ fqn, written: item.name, loc, context: 'use' });
+            }
+            return;
+        }
+        if (node.kind === 'attrgroup') {
+            reportAttributes(node);
+            return;
+        }
+        for (const comment of node.leadingComments || []) {
+            reportDocblock(comment);
+        }
+
+        const positions = CLASS_NAME_POSITIONS[node.kind] || {};
+        const isInstanceof = node.kind === 'bin' && node.type === 'instanceof';
+
+        for (const key of Object.keys(node)) {
+            if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') continue;
+            const value = node[key];
+            if (!value || typeof value !== 'object') continue;
+
+            if (positions[key]) {
+                report(value, positions[key]);
+            } else if (isInstanceof && key === 'right') {
+                report(value, 'instanceof');
+            } else {
+                walk(value);
+            }
+        }
+    };
+
+    const reportDocblock = (comment: any) => {
+        if (seenComments.has(comment) || comment.kind !== 'commentblock' || !comment.value.startsWith('/**') || !comment.loc) return;
+        seenComments.add(comment);
+
+        for (const { type, offset } of getDocTypes(comment.value)) {
+            const pattern = new RegExp(DOC_NAME_PATTERN);
+            let match;
+            while ((match = pattern.exec(type)) !== null) {
+                const name = match[0];
+                if (!isDocClassName(type, name, match.index) || (!name.includes('\\') && isBuiltinType(name))) continue;
+                const loc = spanLoc(comment.loc.start, comment.value, offset + match.index, name.length);
+                visit({ fqn: resolver.resolveClassName(name), written: name, loc, context: 'doc' });
+            }
+        }
+    };
+
+    const reportAttributes = (group: any) => {
+        // Attribute locations are unreliable, the group start is not: find each name after it
+        let searchFrom = group.loc ? group.loc.start.offset + 2 : 0;
+        for (const attribute of group.attrs || []) {
+            if (typeof attribute.name !== 'string') continue;
+            let loc = attribute.loc;
+            if (source && group.loc) {
+                const start = source.indexOf(attribute.name, searchFrom);
+                if (start !== -1) {
+                    const text = source.substring(group.loc.start.offset, start + attribute.name.length);
+                    loc = spanLoc(group.loc.start, text, start - group.loc.start.offset, attribute.name.length);
+                }
+                searchFrom = Math.max(searchFrom, attribute.loc?.end.offset ?? 0);
+            }
+            visit({ fqn: resolver.resolveClassName(attribute.name), written: attribute.name, loc, context: 'attribute' });
+            walk(attribute.args);
+        }
+    };
+
+    walk(ast.children || ast);
+}
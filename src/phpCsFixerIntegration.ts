@@ -41,7 +41,7 @@ export class PHPCSFixerIntegration implements vscode.DocumentFormattingEditProvi
     }
 
     private getConfig(): any {
-        return vscode.workspace.getConfiguration('phpRefactorTools.phpCsFixer');
+        return vscode.workspace.getConfiguration('phpRefactorTools.phpCsFixer', vscode.Uri.file(this.workspaceRoot));
     }
 
     public async provideDocumentFormattingEdits(
@@ -60,7 +60,7 @@ export class PHPCSFixerIntegration implements vscode.DocumentFormattingEditProvi
         }
 
         try {
-            const phpConfig = vscode.workspace.getConfiguration('php');
+            const phpConfig = vscode.workspace.getConfiguration('php', vscode.Uri.file(this.workspaceRoot));
             let phpExe = phpConfig.get<string>('validate.executablePath') || 'php';
 
             // Resolve relative path for executable (e.g. ./php)
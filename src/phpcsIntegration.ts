@@ -70,7 +70,7 @@ export class PHPCSIntegration {
     }
 
     private getConfig(): any {
-        return vscode.workspace.getConfiguration('phpRefactorTools.phpcs');
+        return vscode.workspace.getConfiguration('phpRefactorTools.phpcs', vscode.Uri.file(this.workspaceRoot));
     }
 
     public async analyzeFile(filePath: string): Promise<void> {
@@ -88,7 +88,7 @@ export class PHPCSIntegration {
 
         try {
             // Get PHP executable from config
-            const phpConfig = vscode.workspace.getConfiguration('php');
+            const phpConfig = vscode.workspace.getConfiguration('php', vscode.Uri.file(this.workspaceRoot));
             let phpExe = phpConfig.get<string>('validate.executablePath') || 'php';
 
             // Resolve relative path for executable (e.g. ./php)
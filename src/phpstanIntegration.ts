@@ -73,7 +73,7 @@ export class PHPStanIntegration {
 
         try {
             // Get PHP executable from config (default to 'php')
-            const phpConfig = vscode.workspace.getConfiguration('php');
+            const phpConfig = vscode.workspace.getConfiguration('php', vscode.Uri.file(this.workspaceRoot));
             let phpExe = phpConfig.get<string>('validate.executablePath') || 'php';
 
             // Resolve relative path for executable (e.g. ./php)
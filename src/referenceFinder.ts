@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, normalizeFqn } from './indexer';
+import { NameResolver, walkClassNames } from './nameResolver';
+import { TypeInference, WalkContext, getNodeName, walkWithContext } from './typeInference';
+
+/**
+ * `write` marks declarations (and assignments to properties), `read` every other use.
+ */
+export type ReferenceKind = 'read' | 'write';
+
+export interface SymbolReference {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    kind: ReferenceKind;
+    isDeclaration: boolean;
+}
+
+export type MemberKind = 'method' | 'property' | 'constant';
+
+/**
+ * A method, property or class constant (enum cases included), identified by the class
+ * declaring it.
+ */
+export interface MemberTarget {
+    kind: MemberKind;
+    classFqn: string;
+    name: string;
+}
+
+const TYPE_DECLARATION_KINDS = ['class', 'interface', 'trait', 'enum'];
+
+const LOOKUP_KINDS = ['propertylookup', 'nullsafepropertylookup', 'staticlookup'];
+
+/**
+ * Cheap filter before parsing (method names are case-insensitive).
+ */
+function mentions(text: string, target: MemberTarget): boolean {
+    return text.toLowerCase().includes(target.name.toLowerCase());
+}
+
+function toRange(loc: any): vscode.Range {
+    return new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column);
+}
+
+function sameClass(a: string, b: string): boolean {
+    return normalizeFqn(a).toLowerCase() === normalizeFqn(b).toLowerCase();
+}
+
+function sameMemberName(kind: MemberKind, a: string, b: string): boolean {
+    // Method names are case-insensitive, property and constant names are not
+    return kind === 'method' ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * The text of a file as the editor has it when it is open, from disk otherwise. Other files
+ * are not opened as documents, which would run every document listener (diagnostics...) on them.
+ */
+export async function readText(uri: vscode.Uri): Promise<string | undefined> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (document) return document.getText();
+    try {
+        return await fs.readFile(uri.fsPath, 'utf8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Finds references by comparing resolved FQNs rather than names, so `App\Model\User` is not
+ * confused with `Other\User` and is still found through aliases (`use App\Model\User as U`).
+ * Shared by Find All References, code lenses, document highlights and the call hierarchy.
+ */
+export class ReferenceFinder {
+    private indexer: Indexer;
+    private parser: any;
+    private typeInference: TypeInference;
+    private lastParsed?: { key: string, version: number, ast: any };
+
+    constructor(indexer: Indexer) {
+        this.indexer = indexer;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    /**
+     * The FQN of the class name at the position: a reference anywhere in code, attributes or
+     * docblocks, or the name of a class declaration.
+     */
+    public findClassAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+        const text = document.getText();
+        const ast = this.parseDocument(document);
+        if (!ast) return undefined;
+
+        const offset = document.offsetAt(position);
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+
+        let fqn: string | undefined;
+        walkClassNames(ast, occurrence => {
+            if (!fqn && containsOffset(occurrence.loc)) fqn = occurrence.fqn;
+        }, text);
+        if (fqn) return fqn;
+
+        walkWithContext(ast, (node, context) => {
+            if (!fqn && TYPE_DECLARATION_KINDS.includes(node.kind) && containsOffset(node.name?.loc)) {
+                fqn = context.classFqn;
+            }
+        });
+        return fqn;
+    }
+
+    /**
+     * References to the class in every file that uses it (according to the usage index)
+     * and in the files declaring it.
+     */
+    public async findClassReferences(fqn: string, token?: vscode.CancellationToken): Promise<SymbolReference[]> {
+        const references: SymbolReference[] = [];
+        for (const uri of this.getClassCandidateFiles(fqn)) {
+            if (token?.isCancellationRequested) break;
+            const text = await readText(uri);
+            if (text === undefined) continue;
+            references.push(...this.findClassReferencesInText(uri, text, this.parse(text, uri.fsPath), fqn));
+        }
+        return references;
+    }
+
+    public findClassReferencesInDocument(document: vscode.TextDocument, fqn: string): SymbolReference[] {
+        return this.findClassReferencesInText(document.uri, document.getText(), this.parseDocument(document), fqn);
+    }
+
+    /**
+     * The files that can refer to the class according to the index: the files using it and the
+     * files declaring it. Unsaved documents are added, the index only knows what is on disk.
+     */
+    public getClassCandidateFiles(fqn: string): vscode.Uri[] {
+        return this.withUnsavedDocuments([
+            ...this.indexer.getCandidates(fqn).map(candidate => vscode.Uri.parse(candidate)),
+            ...this.indexer.getDefinitions(fqn).map(def => vscode.Uri.file(def.path))
+        ]);
+    }
+
+    private findClassReferencesInText(uri: vscode.Uri, text: string, ast: any, fqn: string): SymbolReference[] {
+        if (!ast) return [];
+
+        const references: SymbolReference[] = [];
+        walkWithContext(ast, (node, context) => {
+            if (TYPE_DECLARATION_KINDS.includes(node.kind) && node.name?.loc && context.classFqn && sameClass(context.classFqn, fqn)) {
+                references.push({ uri, range: toRange(node.name.loc), kind: 'write', isDeclaration: true });
+            }
+        });
+        walkClassNames(ast, occurrence => {
+            if (sameClass(occurrence.fqn, fqn)) {
+                references.push({ uri, range: toRange(occurrence.loc), kind: 'read', isDeclaration: false });
+            }
+        }, text);
+
+        return references.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    /**
+     * The member named at the position, from its declaration or from an access resolved
+     * through the receiver's type.
+     */
+    public findMemberAt(document: vscode.TextDocument, position: vscode.Position): MemberTarget | undefined {
+        const ast = this.parseDocument(document);
+        if (!ast) return undefined;
+
+        const offset = document.offsetAt(position);
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+
+        let target: MemberTarget | undefined;
+        this.walkMembers(ast, member => {
+            if (target || !containsOffset(member.loc)) return;
+            if (member.declaringClass) {
+                target = { kind: member.kind, classFqn: member.declaringClass, name: member.name };
+            } else {
+                const def = this.resolveAccess(member.node, member.kind, member.name, member.context, member.resolver)[0];
+                if (def?.parent) target = { kind: member.kind, classFqn: def.parent, name: def.name };
+            }
+        });
+        return target;
+    }
+
+    /**
+     * Declarations and accesses of the member in the workspace. Overrides, implementations
+     * of the same interface method and the declarations they override all count as the same
+     * member, so do accesses through `parent::`, `self::` and `static::`.
+     */
+    public async findMemberReferences(target: MemberTarget, token?: vscode.CancellationToken): Promise<SymbolReference[]> {
+        const family = this.getMemberFamily(target);
+        const references: SymbolReference[] = [];
+
+        for (const uri of this.getMemberCandidateFiles(target)) {
+            if (token?.isCancellationRequested) break;
+            const text = await readText(uri);
+            if (text === undefined || !mentions(text, target)) continue;
+            references.push(...this.findMemberReferencesInAst(uri, this.parse(text, uri.fsPath), target, family));
+        }
+        return references;
+    }
+
+    public findMemberReferencesInDocument(document: vscode.TextDocument, target: MemberTarget, family = this.getMemberFamily(target)): SymbolReference[] {
+        if (!mentions(document.getText(), target)) return [];
+        return this.findMemberReferencesInAst(document.uri, this.parseDocument(document), target, family);
+    }
+
+    /**
+     * The files that can refer to the member according to the index: the files declaring or
+     * accessing a member with that name, and unsaved documents.
+     */
+    public getMemberCandidateFiles(target: MemberTarget): vscode.Uri[] {
+        return this.withUnsavedDocuments(this.indexer.getMemberCandidates(target.name).map(candidate => vscode.Uri.parse(candidate)));
+    }
+
+    /**
+     * The files that can call the function according to the index: the files calling a
+     * function with its short name, and unsaved documents.
+     */
+    public getFunctionCallCandidateFiles(fqn: string): vscode.Uri[] {
+        return this.withUnsavedDocuments(this.indexer.getFunctionCallCandidates(fqn).map(candidate => vscode.Uri.parse(candidate)));
+    }
+
+    /**
+     * The declarations and accesses of the member in a parsed file. Find All References,
+     * code lenses, document highlights and the call hierarchy all match members through this.
+     */
+    private findMemberReferencesInAst(uri: vscode.Uri, ast: any, target: MemberTarget, family: Set<string>): SymbolReference[] {
+        if (!ast) return [];
+
+        const inFamily = (classFqn: string | undefined) => !!classFqn && family.has(normalizeFqn(classFqn).toLowerCase());
+        const references: SymbolReference[] = [];
+        this.walkMembers(ast, member => {
+            if (member.kind !== target.kind || !sameMemberName(target.kind, member.name, target.name)) return;
+
+            const matches = member.declaringClass
+                ? inFamily(member.declaringClass)
+                : this.resolveAccess(member.node, member.kind, member.name, member.context, member.resolver).some(def => inFamily(def.parent));
+            if (matches) {
+                references.push({
+                    uri,
+                    range: toRange(member.loc),
+                    kind: member.isWrite ? 'write' : 'read',
+                    isDeclaration: !!member.declaringClass
+                });
+            }
+        });
+
+        return references.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    private withUnsavedDocuments(uris: vscode.Uri[]): vscode.Uri[] {
+        const unique = new Map<string, vscode.Uri>();
+        for (const uri of uris) {
+            unique.set(uri.toString(), uri);
+        }
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.isDirty && document.languageId === 'php') {
+                unique.set(document.uri.toString(), document.uri);
+            }
+        }
+        return Array.from(unique.values());
+    }
+
+    /**
+     * The lowercased FQNs of the classes whose declaration of the member is the same member:
+     * the declaring class, the parents/interfaces/traits it overrides, and every subtype
+     * (or trait user) overriding one of them.
+     */
+    private getMemberFamily(target: MemberTarget): Set<string> {
+        const declares = (classFqn: string) => this.typeInference.findMemberDefinitions([classFqn], target.name, target.kind)
+            .some(def => def.parent && sameClass(def.parent, classFqn));
+
+        const roots = [normalizeFqn(target.classFqn)];
+        for (const fqn of this.indexer.getMemberLookupOrder(target.classFqn)) {
+            if (!roots.includes(fqn) && declares(fqn)) roots.push(fqn);
+        }
+
+        const family = new Set(roots.map(fqn => fqn.toLowerCase()));
+        for (const root of roots) {
+            const users = this.indexer.getTraitUsers(root);
+            for (const fqn of [...this.indexer.getSubtypes(root), ...users, ...users.flatMap(user => this.indexer.getSubtypes(user))]) {
+                if (declares(fqn)) family.add(fqn.toLowerCase());
+            }
+        }
+        return family;
+    }
+
+    /**
+     * Reports every member declaration (with its class) and member access (with what is
+     * needed to resolve its receiver) in the file.
+     */
+    private walkMembers(ast: any, visit: (member: {
+        kind: MemberKind, name: string, loc: any, isWrite: boolean, declaringClass?: string,
+        node?: any, context: WalkContext, resolver: NameResolver
+    }) => void) {
+        // Calls and assignments are visited before the lookups inside them
+        const calledLookups = new Set<any>();
+        const assignedLookups = new Set<any>();
+
+        walkWithContext(ast, (node, context, resolver) => {
+            const declare = (kind: MemberKind, nameNode: any) => {
+                const name = getNodeName(nameNode);
+                if (name && nameNode.loc && context.classFqn) {
+                    visit({ kind, name, loc: nameNode.loc, isWrite: true, declaringClass: context.classFqn, context, resolver });
+                }
+            };
+
+            if (node.kind === 'call' && LOOKUP_KINDS.includes(node.what?.kind)) {
+                calledLookups.add(node.what);
+            } else if (node.kind === 'assign' && LOOKUP_KINDS.includes(node.left?.kind)) {
+                assignedLookups.add(node.left);
+            } else if (node.kind === 'method') {
+                declare('method', node.name);
+            } else if (node.kind === 'property') {
+                declare('property', node.name);
+            } else if (node.kind === 'parameter' && (node.flags || node.readonly) && context.callable?.node.name && getNodeName(context.callable.node.name)?.toLowerCase() === '__construct') {
+                // Promoted constructor parameter
+                declare('property', node.name);
+            } else if (node.kind === 'classconstant') {
+                for (const constant of node.constants || []) declare('constant', constant.name);
+            } else if (node.kind === 'enumcase') {
+                declare('constant', node.name);
+            } else if (LOOKUP_KINDS.includes(node.kind)) {
+                const name = getNodeName(node.offset);
+                if (!name || !node.offset.loc) return;
+                const kind: MemberKind = calledLookups.has(node) ? 'method'
+                    : node.kind !== 'staticlookup' || node.offset.kind === 'variable' ? 'property'
+                    : 'constant';
+                // `Foo::class` is not a constant
+                if (kind === 'constant' && name.toLowerCase() === 'class') return;
+                visit({ kind, name, loc: node.offset.loc, isWrite: assignedLookups.has(node), node, context, resolver });
+            }
+        });
+    }
+
+    private resolveAccess(lookup: any, kind: MemberKind, name: string, context: WalkContext, resolver: NameResolver) {
+        const receivers = lookup.kind === 'staticlookup'
+            ? [this.typeInference.resolveClassReference(lookup.what, context, resolver)].filter((fqn): fqn is string => !!fqn)
+            : this.typeInference.inferClassTypes(lookup.what, context, resolver, lookup.loc.start.offset);
+        return this.typeInference.findMemberDefinitions(receivers, name, kind);
+    }
+
+    /**
+     * Parses a document, reusing the last AST while the document is unchanged: highlights
+     * look up the symbol and its references in the same version.
+     */
+    public parseDocument(document: vscode.TextDocument): any {
+        const key = document.uri.toString();
+        if (this.lastParsed && this.lastParsed.key === key && this.lastParsed.version === document.version) {
+            return this.lastParsed.ast;
+        }
+        const ast = this.parse(document.getText(), document.uri.fsPath);
+        this.lastParsed = { key, version: document.version, ast };
+        return ast;
+    }
+
+    private parse(text: string, filePath: string): any {
+        try {
+            return this.parser.parseCode(text, filePath);
+        } catch (e) {
+            return undefined;
+        }
+    }
+}
@@ -1,13 +1,16 @@
 import * as vscode from 'vscode';
 import { Indexer } from './indexer';
+import { ReferenceFinder, SymbolReference } from './referenceFinder';
 
 export class PhpReferenceProvider implements vscode.ReferenceProvider {
     private indexer: Indexer;
     private outputChannel: vscode.OutputChannel;
+    private referenceFinder: ReferenceFinder;
 
     constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
         this.indexer = indexer;
         this.outputChannel = outputChannel;
+        this.referenceFinder = new ReferenceFinder(indexer);
     }
 
     public async provideReferences(
@@ -16,72 +19,26 @@ export class PhpReferenceProvider implements vscode.ReferenceProvider {
         context: vscode.ReferenceContext,
         token: vscode.CancellationToken
     ): Promise<vscode.Location[]> {
-        const range = document.getWordRangeAtPosition(position);
-        if (!range) return [];
-
-        const word = document.getText(range);
-        this.outputChannel.appendLine(`[RefProvider] Finding references for: ${word}`);
-
-        const locations: vscode.Location[] = [];
-
-        // Check if it's a method call by looking at surrounding context
-        const lineText = document.lineAt(position.line).text;
-        const isMethodCall = lineText.includes('->') || lineText.includes('::');
-
-        if (isMethodCall) {
-            // Try to find the class context
-            // This is simplified - in reality, we'd need full AST analysis
-            // For now, we'll search for method usages across all files
-            const candidates = this.indexer.getCandidates(word);
-
-            for (const candidatePath of candidates) {
-                try {
-                    const uri = vscode.Uri.parse(candidatePath);
-                    const doc = await vscode.workspace.openTextDocument(uri);
-                    const text = doc.getText();
-
-                    // Simple regex to find method calls
-                    const methodCallPattern = new RegExp(`->\\s*${word}\\s*\\(|::\\s*${word}\\s*\\(`, 'g');
-                    let match;
-
-                    while ((match = methodCallPattern.exec(text)) !== null) {
-                        const pos = doc.positionAt(match.index);
-                        const wordRange = doc.getWordRangeAtPosition(pos.translate(0, match[0].indexOf(word)));
-                        if (wordRange) {
-                            locations.push(new vscode.Location(uri, wordRange));
-                        }
-                    }
-                } catch (e) {
-                    console.error(`Error processing ${candidatePath}:`, e);
-                }
-            }
-        } else {
-            // It's a class/interface/trait reference
-            const candidates = this.indexer.getCandidates(word);
-
-            for (const candidatePath of candidates) {
-                try {
-                    const uri = vscode.Uri.parse(candidatePath);
-                    const doc = await vscode.workspace.openTextDocument(uri);
-                    const text = doc.getText();
-
-                    // Find occurrences of the class name
-                    const pattern = new RegExp(`\\b${word}\\b`, 'g');
-                    let match;
+        // Class names are matched on their resolved FQN
+        const classFqn = this.referenceFinder.findClassAt(document, position);
+        if (classFqn) {
+            this.outputChannel.appendLine(`[RefProvider] Finding references for class: ${classFqn}`);
+            return this.toLocations(await this.referenceFinder.findClassReferences(classFqn, token), context);
+        }
 
-                    while ((match = pattern.exec(text)) !== null) {
-                        const pos = doc.positionAt(match.index);
-                        const wordRange = doc.getWordRangeAtPosition(pos);
-                        if (wordRange) {
-                            locations.push(new vscode.Location(uri, wordRange));
-                        }
-                    }
-                } catch (e) {
-                    console.error(`Error processing ${candidatePath}:`, e);
-                }
-            }
+        // Members are matched through the receiver's type, overrides included
+        const member = this.referenceFinder.findMemberAt(document, position);
+        if (member) {
+            this.outputChannel.appendLine(`[RefProvider] Finding references for ${member.kind}: ${member.classFqn}::${member.name}`);
+            return this.toLocations(await this.referenceFinder.findMemberReferences(member, token), context);
         }
+        return [];
+    }
 
+    private toLocations(references: SymbolReference[], context: vscode.ReferenceContext): vscode.Location[] {
+        const locations = references
+            .filter(reference => context.includeDeclaration || !reference.isDeclaration)
+            .map(reference => new vscode.Location(reference.uri, reference.range));
         this.outputChannel.appendLine(`[RefProvider] Found ${locations.length} references`);
         return locations;
     }
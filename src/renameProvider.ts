@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
-import { Indexer } from './indexer';
+import { Indexer, getShortName } from './indexer';
 import * as fs from 'fs-extra';
 // @ts-ignore
 import { Engine } from 'php-parser';
+import { findVariableOccurrences } from './variableScope';
 
 export class PhpRenameProvider implements vscode.RenameProvider {
     private indexer: Indexer;
@@ -16,12 +17,28 @@ export class PhpRenameProvider implements vscode.RenameProvider {
         });
     }
 
-    private extractVarName(node: any): string | null {
-        if (!node) return null;
-        if (node.kind === 'variable') {
-            return node.name;
+    /**
+     * Renames a local variable within its scope (closures only share what they `use`).
+     * Returns undefined when the position is not on a variable.
+     */
+    private renameVariable(document: vscode.TextDocument, position: vscode.Position, newName: string): vscode.WorkspaceEdit | undefined {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return undefined;
         }
-        return null;
+
+        const occurrences = findVariableOccurrences(ast, document.offsetAt(position));
+        if (!occurrences) return undefined;
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        const name = '$' + newName.replace(/^\$/, '');
+        for (const occurrence of occurrences) {
+            const loc = occurrence.loc;
+            workspaceEdit.replace(document.uri, new vscode.Range(loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column), name);
+        }
+        return workspaceEdit;
     }
 
     public async provideRenameEdits(
@@ -30,6 +47,9 @@ export class PhpRenameProvider implements vscode.RenameProvider {
         newName: string,
         token: vscode.CancellationToken
     ): Promise<vscode.WorkspaceEdit> {
+        const variableEdit = this.renameVariable(document, position, newName);
+        if (variableEdit) return variableEdit;
+
         const workspaceEdit = new vscode.WorkspaceEdit();
 
         const range = document.getWordRangeAtPosition(position);
@@ -105,7 +125,14 @@ export class PhpRenameProvider implements vscode.RenameProvider {
 
         // STEP 2: Find all implementations if renaming an interface method
         if (isMethodRename && targetType === 'interface' && targetClassName) {
-            targetImplementations = this.indexer.getImplementations(targetClassName);
+            // The index is keyed by FQN: resolve the interface declared in this file, then
+            // compare implementations by short name like the rest of this provider does
+            const interfaceName: string = targetClassName;
+            const interfaceDefs = this.indexer.getDefinitionsByShortName(interfaceName)
+                .filter(def => def.kind === 'interface' && def.path === document.uri.fsPath);
+            for (const def of interfaceDefs) {
+                targetImplementations.push(...this.indexer.getImplementations(def.fqn || def.name).map(getShortName));
+            }
             console.log(`Interface method rename: ${targetClassName}::${oldName}`);
             console.log(`Found ${targetImplementations.length} implementations: ${targetImplementations.join(', ')}`);
         }
@@ -0,0 +1,46 @@
+/**
+ * Renders indexed symbols as PHP declarations for hovers, signature help and completion
+ * details. Class names in types are shortened to their last segment, the FQN is shown
+ * separately where it matters.
+ */
+
+import { MemberDef, ParamRecord, SymbolDef } from './indexer';
+
+export function formatType(type: string | undefined): string {
+    if (!type) return '';
+    return type.replace(/\\?(?:[A-Za-z_]\w*\\)+([A-Za-z_]\w*)/g, '$1');
+}
+
+/**
+ * `?Foo $foo = null`, `string ...$rest`, `array &$items`
+ */
+export function formatParam(param: ParamRecord): string {
+    const type = formatType(param.type || param.docType);
+    const name = `${param.byRef ? '&' : ''}${param.variadic ? '...' : ''}$${param.name}`;
+    const value = param.defaultValue !== undefined ? ` = ${param.defaultValue}` : '';
+    return `${type ? type + ' ' : ''}${name}${value}`;
+}
+
+/**
+ * `public static function create(array $data = []): static` for methods, `function helper($x)`
+ * for functions.
+ */
+export function formatFunctionSignature(def: SymbolDef): string {
+    const modifiers = def.kind === 'method' ? `${def.visibility || 'public'} ${def.isStatic ? 'static ' : ''}` : '';
+    const params = (def.params || []).map(formatParam).join(', ');
+    const returnType = formatType(def.returnType || def.docReturnType);
+    return `${modifiers}function ${def.name}(${params})${returnType ? ': ' + returnType : ''}`;
+}
+
+/**
+ * `private readonly ?Repo $repo`, `public const int LIMIT`
+ */
+export function formatMemberSignature(member: MemberDef): string {
+    const type = formatType(member.type || member.docType);
+    if (member.kind === 'classConstant') {
+        return `${member.visibility} const ${type ? type + ' ' : ''}${member.name}`;
+    }
+    const modifiers = [member.visibility, member.isStatic ? 'static' : '', member.isReadonly ? 'readonly' : '']
+        .filter(Boolean).join(' ');
+    return `${modifiers} ${type ? type + ' ' : ''}$${member.name}`;
+}
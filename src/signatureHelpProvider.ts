@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer, SymbolDef, getShortName } from './indexer';
+import { formatParam, formatType } from './signature';
+import { TypeInference, walkWithContext } from './typeInference';
+
+// How far back to look for the open parenthesis of the call being typed
+const MAX_LOOKBEHIND = 5000;
+
+const CONTROL_KEYWORDS = ['if', 'elseif', 'while', 'for', 'foreach', 'switch', 'match', 'catch', 'array', 'list', 'isset', 'unset', 'empty', 'fn', 'function', 'declare'];
+
+interface OpenCall {
+    parenOffset: number;
+    argumentIndex: number;
+    argumentName?: string; // Set when the current argument is named (`name: value`)
+}
+
+/**
+ * Finds the unclosed `(` before the offset, skipping nested brackets and string literals,
+ * and counts the arguments typed so far.
+ */
+function findOpenCall(text: string, offset: number): OpenCall | undefined {
+    let depth = 0;
+    let commas = 0;
+    let argumentStart: number | undefined; // Start of the argument at the cursor
+    const limit = Math.max(0, offset - MAX_LOOKBEHIND);
+
+    for (let i = offset - 1; i >= limit; i--) {
+        const char = text[i];
+        if (char === '"' || char === '\'') {
+            // Jump to the opening quote
+            let j = i - 1;
+            while (j >= limit && !(text[j] === char && text[j - 1] !== '\\')) j--;
+            i = j;
+        } else if (char === ')' || char === ']' || char === '}') {
+            depth++;
+        } else if (char === '[' || char === '{') {
+            if (depth === 0) return undefined; // Inside an array or a block, not an argument list
+            depth--;
+        } else if (char === '(') {
+            if (depth === 0) {
+                const current = text.substring(argumentStart ?? i + 1, offset);
+                const named = current.match(/^\s*([A-Za-z_]\w*)\s*:(?!:)/);
+                return { parenOffset: i, argumentIndex: commas, argumentName: named ? named[1] : undefined };
+            }
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            if (commas === 0) argumentStart = i + 1;
+            commas++;
+        } else if (char === ';' && depth === 0) {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+export class PhpSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        // The call is still being typed, so the file rarely parses cleanly
+        this.parser = new Engine({
+            parser: { extractDoc: true, suppressErrors: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    public provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.SignatureHelpContext
+    ): vscode.SignatureHelp | undefined {
+        const text = document.getText();
+        const call = findOpenCall(text, document.offsetAt(position));
+        if (!call) return undefined;
+
+        const before = text.substring(0, call.parenOffset);
+        const callee = before.match(/([\w\\$]+)\s*$/);
+        if (!callee || CONTROL_KEYWORDS.includes(callee[1].toLowerCase()) || callee[1].startsWith('$')) return undefined;
+
+        const defs = this.findCallee(before, call.parenOffset);
+        if (defs.length === 0) return undefined;
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = defs.map(def => this.createSignature(def));
+        help.activeSignature = 0;
+        help.activeParameter = this.getActiveParameter(defs[0], call);
+        this.outputChannel.appendLine(`[SignatureHelp] ${help.signatures[0].label}, argument ${call.argumentIndex}`);
+        return help;
+    }
+
+    /**
+     * Parses the text up to the call with the argument list closed, and resolves the
+     * function, method or constructor being called.
+     */
+    private findCallee(before: string, parenOffset: number): SymbolDef[] {
+        let ast;
+        try {
+            ast = this.parser.parseCode(before + '();', 'signature.php');
+        } catch (e) {
+            return [];
+        }
+
+        let defs: SymbolDef[] | undefined;
+        walkWithContext(ast, (node, context, resolver) => {
+            if (defs || (node.kind !== 'call' && node.kind !== 'new') || node.what?.loc?.end.offset !== parenOffset) return;
+
+            if (node.kind === 'new') {
+                const classFqn = this.typeInference.resolveClassReference(node.what, context, resolver);
+                defs = classFqn ? this.indexer.findMethod(classFqn, '__construct') : [];
+            } else if (node.what.kind === 'name') {
+                const fqn = resolver.resolveFunctionName(node.what.name, node.what.resolution);
+                defs = this.indexer.getFunctionDefinitions(fqn);
+                // Unqualified calls fall back to the global function
+                if (defs.length === 0 && node.what.resolution === 'uqn') {
+                    defs = this.indexer.getFunctionDefinitions(node.what.name);
+                }
+            } else if (['propertylookup', 'nullsafepropertylookup', 'staticlookup'].includes(node.what.kind)) {
+                const lookup = node.what;
+                const name = lookup.offset?.kind === 'identifier' ? lookup.offset.name : undefined;
+                const receivers = lookup.kind === 'staticlookup'
+                    ? [this.typeInference.resolveClassReference(lookup.what, context, resolver)].filter((fqn): fqn is string => !!fqn)
+                    : this.typeInference.inferClassTypes(lookup.what, context, resolver, lookup.loc.start.offset);
+                defs = name ? this.typeInference.findMemberDefinitions(receivers, name, 'method') : [];
+            } else {
+                defs = [];
+            }
+        });
+        return defs || [];
+    }
+
+    private createSignature(def: SymbolDef): vscode.SignatureInformation {
+        // Constructors are shown as `Foo(...)`, the way they are called
+        const name = def.name.toLowerCase() === '__construct' && def.parent ? getShortName(def.parent) : def.name;
+        let label = `${name}(`;
+        const parameters: vscode.ParameterInformation[] = [];
+
+        (def.params || []).forEach((param, i) => {
+            if (i > 0) label += ', ';
+            const paramLabel = formatParam(param);
+            // Doc types are often more precise than the declared one (`int[]` for `array`)
+            const documentation = param.docType && param.type ? formatType(param.docType) : undefined;
+            parameters.push(new vscode.ParameterInformation([label.length, label.length + paramLabel.length], documentation));
+            label += paramLabel;
+        });
+
+        label += ')';
+        const returnType = formatType(def.returnType || def.docReturnType);
+        if (returnType && def.name.toLowerCase() !== '__construct') label += `: ${returnType}`;
+
+        const signature = new vscode.SignatureInformation(label, def.summary ? new vscode.MarkdownString(def.summary) : undefined);
+        signature.parameters = parameters;
+        return signature;
+    }
+
+    /**
+     * Named arguments pick the parameter by name, positional ones by index. Everything
+     * past a variadic parameter belongs to it.
+     */
+    private getActiveParameter(def: SymbolDef, call: OpenCall): number {
+        const params = def.params || [];
+        if (call.argumentName) {
+            const index = params.findIndex(param => param.name === call.argumentName);
+            if (index !== -1) return index;
+        }
+        const variadicIndex = params.findIndex(param => param.variadic);
+        if (variadicIndex !== -1 && call.argumentIndex > variadicIndex) return variadicIndex;
+        return call.argumentIndex;
+    }
+}
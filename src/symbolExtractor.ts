@@ -0,0 +1,469 @@
+/**
+ * Extracts the symbols the Indexer cares about from a parsed PHP file.
+ *
+ * Everything in here is plain data (no vscode types), so a file's symbols can be
+ * serialized to the on-disk index cache and merged back into the Indexer later.
+ */
+
+import { getDocComment, getDocSummary, getDocTagType } from './docblock';
+import { NameResolver, walkClassNames } from './nameResolver';
+
+// [startLine, startColumn, endLine, endColumn], 0-based like vscode.Position
+export type SerializedRange = [number, number, number, number];
+
+export type SymbolKind =
+    'class' | 'interface' | 'trait' | 'enum' | 'method' | 'function' | 'constant' | 'enumCase' | 'property' | 'classConstant';
+
+export type Visibility = 'public' | 'protected' | 'private';
+
+export interface SymbolRecord {
+    name: string;
+    kind: SymbolKind;
+    range?: SerializedRange;
+    parent?: string; // For methods and enum cases: the FQN of the class/interface/trait/enum
+    fqn?: string;
+    backingType?: string; // For backed enums: `int` or `string`
+    visibility?: Visibility; // For methods
+    isStatic?: boolean; // For methods
+    returnType?: string; // For methods and functions: the declared return type, class names resolved
+    docReturnType?: string; // For methods and functions: the `@return` type
+    params?: ParamRecord[]; // For methods and functions
+    summary?: string; // PHPDoc text before the tags
+}
+
+export interface ParamRecord {
+    name: string; // Without the `$`
+    type?: string; // Declared type
+    docType?: string; // Type from the `@param` tag
+    defaultValue?: string; // Default value as written (roughly, complex expressions are elided)
+    variadic: boolean;
+    byRef: boolean;
+}
+
+/**
+ * A property (including constructor-promoted ones) or class constant.
+ * Types are strings with class names resolved to FQNs.
+ */
+export interface MemberRecord {
+    name: string; // Without the `$` for properties
+    kind: 'property' | 'classConstant';
+    parent: string; // FQN of the declaring class/interface/trait/enum
+    range?: SerializedRange;
+    visibility: Visibility;
+    isStatic: boolean;
+    isReadonly: boolean;
+    promoted?: boolean;
+    type?: string; // Declared type
+    docType?: string; // Type from the `@var` tag (or the constructor's `@param` for promoted properties)
+    summary?: string; // PHPDoc text before the tags
+}
+
+export interface InheritanceInfo {
+    className: string; // FQN of the class/interface/trait
+    extends?: string; // FQN of the parent class
+    implements: string[]; // FQNs of implemented interfaces (for interfaces: the extended ones)
+    traits: string[]; // FQNs of the traits pulled in with `use`
+}
+
+export interface FileSymbols {
+    definitions: SymbolRecord[];
+    methods: SymbolRecord[];
+    functions: SymbolRecord[];
+    constants: SymbolRecord[]; // Global constants, from `const` statements and define() calls
+    enumCases: SymbolRecord[];
+    members: MemberRecord[];
+    inheritance: InheritanceInfo[];
+    usages: string[]; // FQNs of the classes referenced in the file
+    memberNames: string[]; // Lowercased names of the methods, properties and constants declared or accessed in the file
+    calledFunctions: string[]; // Lowercased short names of the functions called by name in the file
+}
+
+export function toSerializedRange(loc: any): SerializedRange | undefined {
+    if (!loc) return undefined;
+    return [loc.start.line - 1, loc.start.column, loc.end.line - 1, loc.end.column];
+}
+
+export function extractFileSymbols(ast: any): FileSymbols {
+    const result: FileSymbols = {
+        definitions: [],
+        methods: [],
+        functions: [],
+        constants: [],
+        enumCases: [],
+        members: [],
+        inheritance: [],
+        usages: [],
+        memberNames: [],
+        calledFunctions: []
+    };
+
+    const symbolsFound = new Set<string>();
+    const resolver = new NameResolver(); // Tracks namespace and imports
+
+    const qualify = (name: string) => {
+        const namespace = resolver.getNamespace();
+        return namespace ? `${namespace}\\${name}` : name;
+    };
+
+    const traverse = (nodes: any[]) => {
+        if (!nodes) return;
+        for (const node of nodes) {
+            // Capture namespace
+            if (node.kind === 'namespace') {
+                resolver.setNamespace(node.name);
+            }
+
+            // Definitions
+            if (node.kind === 'class' || node.kind === 'interface' || node.kind === 'trait' || node.kind === 'enum') {
+                const name = typeof node.name === 'string' ? node.name : node.name.name;
+
+                // Build FQN from current namespace context
+                const fqn = qualify(name);
+                symbolsFound.add(fqn);
+
+                const definition: SymbolRecord = {
+                    name: name,
+                    kind: node.kind,
+                    range: toSerializedRange(node.loc),
+                    fqn: fqn,
+                    summary: getSummary(node)
+                };
+                if (node.kind === 'enum' && node.valueType) {
+                    definition.backingType = typeof node.valueType === 'string' ? node.valueType : node.valueType.name;
+                }
+                result.definitions.push(definition);
+
+                // Track Inheritance
+                const inheritanceInfo: InheritanceInfo = {
+                    className: fqn,
+                    implements: [],
+                    traits: []
+                };
+
+                if (node.kind === 'interface') {
+                    // Interfaces can extend several interfaces, record them like implemented ones
+                    for (const ext of node.extends || []) {
+                        const extName = resolver.resolveNameNode(ext);
+                        if (extName) {
+                            inheritanceInfo.implements.push(extName);
+                        }
+                    }
+                } else if (node.extends) {
+                    inheritanceInfo.extends = resolver.resolveNameNode(node.extends) || undefined;
+                }
+
+                if (node.implements && Array.isArray(node.implements)) {
+                    for (const impl of node.implements) {
+                        const implName = resolver.resolveNameNode(impl);
+                        if (implName) {
+                            inheritanceInfo.implements.push(implName);
+                        }
+                    }
+                }
+
+                result.inheritance.push(inheritanceInfo);
+
+                // Track Methods (and enum cases, properties, constants) within this class/interface/trait/enum
+                const traverseBody = (bodyNodes: any[]) => {
+                    if (!bodyNodes) return;
+                    for (const bodyNode of bodyNodes) {
+                        if (bodyNode.kind === 'method') {
+                            const methodName = typeof bodyNode.name === 'string' ? bodyNode.name : bodyNode.name.name;
+                            result.methods.push({
+                                name: methodName,
+                                kind: 'method',
+                                range: toSerializedRange(bodyNode.loc),
+                                parent: fqn,
+                                visibility: toVisibility(bodyNode.visibility),
+                                isStatic: !!bodyNode.isStatic,
+                                ...extractSignature(bodyNode, resolver)
+                            });
+                            if (methodName.toLowerCase() === '__construct') {
+                                result.members.push(...extractPromotedProperties(bodyNode, fqn, resolver));
+                            }
+                        } else if (bodyNode.kind === 'propertystatement' || bodyNode.kind === 'classconstant') {
+                            result.members.push(...extractMembers(bodyNode, fqn, resolver));
+                        } else if (bodyNode.kind === 'traituse') {
+                            for (const trait of bodyNode.traits || []) {
+                                const traitName = resolver.resolveNameNode(trait);
+                                if (traitName) {
+                                    inheritanceInfo.traits.push(traitName);
+                                }
+                            }
+                        } else if (bodyNode.kind === 'enumcase') {
+                            const caseName = typeof bodyNode.name === 'string' ? bodyNode.name : bodyNode.name.name;
+                            result.enumCases.push({
+                                name: caseName,
+                                kind: 'enumCase',
+                                range: toSerializedRange(bodyNode.loc),
+                                parent: fqn,
+                                summary: getSummary(bodyNode)
+                            });
+                        }
+                    }
+                };
+
+                if (node.body) {
+                    if (Array.isArray(node.body)) {
+                        traverseBody(node.body);
+                    } else if (node.body.children) {
+                        traverseBody(node.body.children);
+                    }
+                }
+            }
+
+            else if (node.kind === 'function') {
+                const name = typeof node.name === 'string' ? node.name : node.name.name;
+                result.functions.push({
+                    name: name,
+                    kind: 'function',
+                    range: toSerializedRange(node.loc),
+                    fqn: qualify(name),
+                    ...extractSignature(node, resolver)
+                });
+            }
+
+            else if (node.kind === 'constantstatement') {
+                for (const constant of node.constants || []) {
+                    const name = typeof constant.name === 'string' ? constant.name : constant.name.name;
+                    result.constants.push({
+                        name: name,
+                        kind: 'constant',
+                        range: toSerializedRange(constant.loc),
+                        fqn: qualify(name),
+                        summary: getSummary(node)
+                    });
+                }
+            }
+
+            // Imports
+            else if (node.kind === 'usegroup') {
+                resolver.addUseGroup(node);
+            }
+
+            if (node.children) traverse(node.children);
+            if (node.body) {
+                if (Array.isArray(node.body)) traverse(node.body);
+                else if (node.body.children) traverse(node.body.children);
+            }
+        }
+    };
+
+    if (ast.children) traverse(ast.children);
+
+    // define() calls can appear anywhere (typically guarded by `if (!defined(...))`)
+    forEachNode(ast, node => {
+        if (node.kind !== 'call' || !node.what || node.what.kind !== 'name') return;
+        if (node.what.name.replace(/^\\/, '').toLowerCase() !== 'define') return;
+        const nameArg = node.arguments && node.arguments[0];
+        if (!nameArg || nameArg.kind !== 'string') return;
+
+        // The name is always global, so a namespaced constant is written out in full
+        const fqn = nameArg.value.replace(/^\\/, '');
+        result.constants.push({
+            name: fqn.split('\\').pop()!,
+            kind: 'constant',
+            range: toSerializedRange(node.loc),
+            fqn: fqn
+        });
+    });
+
+    // Usages: every class name referenced anywhere in the file, resolved to its FQN
+    walkClassNames(ast, occurrence => symbolsFound.add(occurrence.fqn));
+
+    result.usages = Array.from(symbolsFound);
+    result.memberNames = collectMemberNames(ast, result);
+    result.calledFunctions = collectCalledFunctions(ast);
+    return result;
+}
+
+const LOOKUP_KINDS = ['propertylookup', 'nullsafepropertylookup', 'staticlookup'];
+
+/**
+ * Names of the members declared in the file and of the ones accessed by name (`$x->foo`,
+ * `Foo::bar()`, `self::$baz`), so references to a member are only searched in these files.
+ */
+function collectMemberNames(ast: any, symbols: FileSymbols): string[] {
+    const names = new Set<string>();
+    for (const declared of [...symbols.methods, ...symbols.enumCases, ...symbols.members]) {
+        names.add(declared.name.toLowerCase());
+    }
+    forEachNode(ast, node => {
+        if (!LOOKUP_KINDS.includes(node.kind) || !node.offset) return;
+        const name = node.offset.kind === 'identifier' || node.offset.kind === 'variable' ? node.offset.name : undefined;
+        if (typeof name === 'string') names.add(name.toLowerCase());
+    });
+    return Array.from(names);
+}
+
+/**
+ * Short names of the functions called by name (`foo()`, `\App\foo()`), so callers of a
+ * function are only searched in these files. Unqualified calls may resolve to a namespaced
+ * function or the global one, the short name covers both.
+ */
+function collectCalledFunctions(ast: any): string[] {
+    const names = new Set<string>();
+    forEachNode(ast, node => {
+        if (node.kind === 'call' && node.what?.kind === 'name' && typeof node.what.name === 'string') {
+            names.add(node.what.name.split('\\').pop().toLowerCase());
+        }
+    });
+    return Array.from(names);
+}
+
+function getIdentifierName(node: any): string {
+    return typeof node.name === 'string' ? node.name : node.name.name;
+}
+
+function toVisibility(visibility: string | null | undefined): Visibility {
+    return visibility === 'protected' || visibility === 'private' ? visibility : 'public';
+}
+
+function getSummary(node: any): string | undefined {
+    const doc = getDocComment(node);
+    return doc ? getDocSummary(doc) : undefined;
+}
+
+/**
+ * Parameters, return types and PHPDoc summary of a method or function.
+ */
+function extractSignature(node: any, resolver: NameResolver): Pick<SymbolRecord, 'returnType' | 'docReturnType' | 'params' | 'summary'> {
+    const doc = getDocComment(node);
+    const docReturnType = doc ? getDocTagType(doc, 'return') : undefined;
+    const params: ParamRecord[] = (node.arguments || []).map((param: any) => {
+        const name = getIdentifierName(param);
+        const docType = doc ? getDocTagType(doc, 'param', name) : undefined;
+        return {
+            name: name,
+            type: resolver.resolveTypeNode(param.type, param.nullable),
+            docType: docType ? resolver.resolveDocType(docType) : undefined,
+            defaultValue: param.value ? printDefaultValue(param.value) : undefined,
+            variadic: !!param.variadic,
+            byRef: !!param.byref
+        };
+    });
+    return {
+        returnType: resolver.resolveTypeNode(node.type, node.nullable),
+        docReturnType: docReturnType ? resolver.resolveDocType(docReturnType) : undefined,
+        params: params,
+        summary: doc ? getDocSummary(doc) : undefined
+    };
+}
+
+/**
+ * Renders a default value for signatures. Literals and constants are kept, anything
+ * more complex becomes `...`.
+ */
+function printDefaultValue(node: any): string {
+    switch (node.kind) {
+        case 'nullkeyword':
+        case 'boolean':
+        case 'string':
+            return node.raw !== undefined ? node.raw : JSON.stringify(node.value);
+        case 'number':
+            return String(node.value);
+        case 'name':
+            return node.name;
+        case 'array':
+            return node.items && node.items.length > 0 ? '[...]' : '[]';
+        case 'unary':
+            return node.type + printDefaultValue(node.what);
+        case 'staticlookup': {
+            const owner = node.what?.kind === 'name' ? node.what.name : node.what?.raw || 'self';
+            return `${owner}::${getIdentifierName(node.offset)}`;
+        }
+        default:
+            return '...';
+    }
+}
+
+/**
+ * Properties and constants of a `propertystatement` or `classconstant` node.
+ */
+function extractMembers(node: any, parent: string, resolver: NameResolver): MemberRecord[] {
+    const members: MemberRecord[] = [];
+    const doc = getDocComment(node);
+    const docType = doc ? getDocTagType(doc, 'var') : undefined;
+    const summary = getSummary(node);
+
+    if (node.kind === 'propertystatement') {
+        for (const property of node.properties || []) {
+            members.push({
+                name: getIdentifierName(property),
+                kind: 'property',
+                parent: parent,
+                range: toSerializedRange(property.loc),
+                visibility: toVisibility(node.visibility),
+                isStatic: !!node.isStatic,
+                isReadonly: !!property.readonly,
+                type: resolver.resolveTypeNode(property.type, property.nullable),
+                docType: docType ? resolver.resolveDocType(docType) : undefined,
+                summary: summary
+            });
+        }
+    } else {
+        for (const constant of node.constants || []) {
+            members.push({
+                name: getIdentifierName(constant),
+                kind: 'classConstant',
+                parent: parent,
+                range: toSerializedRange(constant.loc),
+                visibility: toVisibility(node.visibility),
+                isStatic: true,
+                isReadonly: true,
+                type: resolver.resolveTypeNode(node.type, node.nullable),
+                docType: docType ? resolver.resolveDocType(docType) : undefined,
+                summary: summary
+            });
+        }
+    }
+    return members;
+}
+
+// php-parser's parameter flags for constructor promotion
+const MODIFIER_PUBLIC = 1;
+const MODIFIER_PROTECTED = 2;
+const MODIFIER_PRIVATE = 4;
+
+/**
+ * Constructor parameters with a visibility (or `readonly`) modifier declare properties too.
+ */
+function extractPromotedProperties(constructor: any, parent: string, resolver: NameResolver): MemberRecord[] {
+    const members: MemberRecord[] = [];
+    const doc = getDocComment(constructor);
+
+    for (const param of constructor.arguments || []) {
+        const flags = param.flags || 0;
+        if (!(flags & (MODIFIER_PUBLIC | MODIFIER_PROTECTED | MODIFIER_PRIVATE)) && !param.readonly) continue;
+
+        const name = getIdentifierName(param);
+        const docType = doc ? getDocTagType(doc, 'param', name) : undefined;
+        members.push({
+            name: name,
+            kind: 'property',
+            parent: parent,
+            range: toSerializedRange(param.loc),
+            visibility: flags & MODIFIER_PRIVATE ? 'private' : flags & MODIFIER_PROTECTED ? 'protected' : 'public',
+            isStatic: false,
+            isReadonly: !!param.readonly,
+            promoted: true,
+            type: resolver.resolveTypeNode(param.type, param.nullable),
+            docType: docType ? resolver.resolveDocType(docType) : undefined
+        });
+    }
+    return members;
+}
+
+function forEachNode(node: any, visit: (node: any) => void) {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+        for (const child of node) forEachNode(child, visit);
+        return;
+    }
+    if (node.kind) visit(node);
+    for (const key of Object.keys(node)) {
+        if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') continue;
+        const value = node[key];
+        if (value && typeof value === 'object') forEachNode(value, visit);
+    }
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+// @ts-ignore
+import { Engine } from 'php-parser';
+import { Indexer } from './indexer';
+import { TypeInference, getNodeName, walkWithContext } from './typeInference';
+
+export class PhpTypeDefinitionProvider implements vscode.TypeDefinitionProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private parser: any;
+    private typeInference: TypeInference;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        this.parser = new Engine({
+            parser: { extractDoc: true },
+            ast: { withPositions: true }
+        });
+        this.typeInference = new TypeInference(indexer);
+    }
+
+    public async provideTypeDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[]> {
+        let ast;
+        try {
+            ast = this.parser.parseCode(document.getText(), document.uri.fsPath);
+        } catch (e) {
+            return [];
+        }
+
+        const offset = document.offsetAt(position);
+        const containsOffset = (loc: any) => loc && loc.start.offset <= offset && offset <= loc.end.offset;
+
+        // Nodes are visited outside-in, so the last match is the innermost expression at the cursor
+        let types: string[] = [];
+        walkWithContext(ast, (node, context, resolver) => {
+            if (node.kind === 'variable' && containsOffset(node.loc)) {
+                types = this.typeInference.inferClassTypes(node, context, resolver, node.loc.start.offset);
+            } else if (['propertylookup', 'nullsafepropertylookup', 'staticlookup', 'call'].includes(node.kind)) {
+                // On the member name: the type of the property, or the return type of the method
+                const lookup = node.kind === 'call' ? node.what : node;
+                if (containsOffset(lookup?.offset?.loc)) {
+                    types = this.typeInference.inferClassTypes(node, context, resolver, node.loc.start.offset);
+                }
+            } else if (node.kind === 'parameter' && containsOffset(node.name?.loc)) {
+                // Promoted constructor parameters are parameters too
+                const variable = { kind: 'variable', name: getNodeName(node.name) };
+                types = this.typeInference.inferClassTypes(variable, context, resolver, node.loc.end.offset);
+            } else if (node.kind === 'property' && containsOffset(node.name?.loc) && context.classFqn) {
+                const name = getNodeName(node.name);
+                types = name ? this.typeInference.inferPropertyTypes(context.classFqn, name) : [];
+            }
+        });
+
+        this.outputChannel.appendLine(`[TypeDefProvider] Types at cursor: ${types.join(', ') || 'none'}`);
+
+        const locations: vscode.Location[] = [];
+        for (const fqn of types) {
+            // Vendor classes may not be indexed yet
+            for (const def of await this.indexer.resolveClass(fqn, document.uri)) {
+                locations.push(new vscode.Location(vscode.Uri.file(def.path), def.range || new vscode.Range(0, 0, 0, 0)));
+            }
+        }
+        return locations;
+    }
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { Indexer, SymbolDef, getShortName } from './indexer';
+import { ReferenceFinder } from './referenceFinder';
+
+type HierarchyRelation = 'extends' | 'implements' | 'uses trait' | 'used by';
+
+/**
+ * Keeps the FQN with the item, VS Code hands the same instance back for supertypes/subtypes.
+ */
+class PhpTypeHierarchyItem extends vscode.TypeHierarchyItem {
+    constructor(public readonly fqn: string, def: SymbolDef, relation?: HierarchyRelation) {
+        const range = def.range || new vscode.Range(0, 0, 0, 0);
+        const namespace = fqn.includes('\\') ? fqn.substring(0, fqn.lastIndexOf('\\')) : '';
+        // Trait `use` is not a subtype relation, so the edge kind is spelled out in the detail
+        const detail = relation ? `${relation}${namespace ? ' · ' + namespace : ''}` : namespace;
+        super(toSymbolKind(def.kind), getShortName(fqn), detail, vscode.Uri.file(def.path), range, range);
+    }
+}
+
+function toSymbolKind(kind: SymbolDef['kind']): vscode.SymbolKind {
+    switch (kind) {
+        case 'interface': return vscode.SymbolKind.Interface;
+        case 'enum': return vscode.SymbolKind.Enum;
+        case 'trait': return vscode.SymbolKind.Module;
+        default: return vscode.SymbolKind.Class;
+    }
+}
+
+const TYPE_KINDS: SymbolDef['kind'][] = ['class', 'interface', 'trait', 'enum'];
+
+export class PhpTypeHierarchyProvider implements vscode.TypeHierarchyProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+    private referenceFinder: ReferenceFinder;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+        this.referenceFinder = new ReferenceFinder(indexer);
+    }
+
+    public prepareTypeHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.TypeHierarchyItem[] {
+        const range = document.getWordRangeAtPosition(position);
+        if (!range) return [];
+
+        const word = document.getText(range);
+        this.outputChannel.appendLine(`[TypeHierarchy] Preparing hierarchy for: ${word}`);
+
+        // The type the name resolves to. When the file does not parse, prefer the type declared
+        // in this file if the short name is ambiguous
+        const fqn = this.referenceFinder.findClassAt(document, position);
+        const candidates = (fqn ? this.indexer.getDefinitions(fqn) : this.indexer.getDefinitionsByShortName(word))
+            .filter(def => TYPE_KINDS.includes(def.kind));
+        const declaredHere = candidates.filter(def => def.path === document.uri.fsPath);
+
+        return (declaredHere.length > 0 ? declaredHere : candidates)
+            .map(def => new PhpTypeHierarchyItem(def.fqn || def.name, def));
+    }
+
+    public provideTypeHierarchySupertypes(
+        item: vscode.TypeHierarchyItem,
+        token: vscode.CancellationToken
+    ): vscode.TypeHierarchyItem[] {
+        const fqn = this.getFqn(item);
+        const info = this.indexer.getInheritanceInfo(fqn);
+        if (!info) return [];
+
+        const isInterface = item.kind === vscode.SymbolKind.Interface;
+        const items: vscode.TypeHierarchyItem[] = [];
+        if (info.extends) {
+            items.push(...this.toItems(info.extends, 'extends'));
+        }
+        for (const iface of info.implements) {
+            // Parent interfaces of an interface are stored with the implemented ones
+            items.push(...this.toItems(iface, isInterface ? 'extends' : 'implements'));
+        }
+        for (const trait of info.traits) {
+            items.push(...this.toItems(trait, 'uses trait'));
+        }
+        return items;
+    }
+
+    public provideTypeHierarchySubtypes(
+        item: vscode.TypeHierarchyItem,
+        token: vscode.CancellationToken
+    ): vscode.TypeHierarchyItem[] {
+        const fqn = this.getFqn(item);
+
+        if (item.kind === vscode.SymbolKind.Module) {
+            return this.indexer.getTraitUsers(fqn).flatMap(user => this.toItems(user, 'used by'));
+        }
+
+        // Direct subtypes only, the view expands level by level
+        const items: vscode.TypeHierarchyItem[] = [];
+        for (const subtype of this.indexer.getImplementations(fqn)) {
+            const isInterface = this.indexer.getDefinitions(subtype).some(def => def.kind === 'interface');
+            items.push(...this.toItems(subtype, isInterface ? 'extends' : 'implements'));
+        }
+        for (const subclass of this.indexer.getSubclasses(fqn)) {
+            items.push(...this.toItems(subclass, 'extends'));
+        }
+        return items;
+    }
+
+    private getFqn(item: vscode.TypeHierarchyItem): string {
+        return item instanceof PhpTypeHierarchyItem ? item.fqn : item.name;
+    }
+
+    /**
+     * Types that are not indexed (e.g. excluded vendor classes) have no location and are left out.
+     */
+    private toItems(fqn: string, relation: HierarchyRelation): vscode.TypeHierarchyItem[] {
+        return this.indexer.getDefinitions(fqn).map(def => new PhpTypeHierarchyItem(fqn, def, relation));
+    }
+}
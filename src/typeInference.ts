@@ -0,0 +1,487 @@
+import { Indexer, SymbolDef, normalizeFqn } from './indexer';
+import { getDocComment, getDocTagType } from './docblock';
+import { NameResolver, isBuiltinType } from './nameResolver';
+
+export type CallTarget =
+    { kind: 'method', classFqn: string, name: string } |
+    { kind: 'function', fqn: string };
+
+export interface WalkContext {
+    classFqn?: string; // Enclosing class/trait/enum
+    callable?: { target: CallTarget, node: any }; // Enclosing method/function (closures belong to it)
+    scopes: any[]; // Variable scopes from the file down to the innermost function/closure/arrow function
+}
+
+const SCOPE_KINDS = ['method', 'function', 'closure', 'arrowfunc'];
+
+// Recursion limit for chains like `$a = $b->c(); $b = $d->e(); ...`
+const MAX_INFERENCE_DEPTH = 8;
+
+export function getNodeName(node: any): string | null {
+    if (!node) return null;
+    if (typeof node === 'string') return node;
+    if (typeof node.name === 'string') return node.name;
+    return null;
+}
+
+/**
+ * Walks a file AST keeping track of the namespace, imports, enclosing class, enclosing
+ * method/function and variable scopes of every node.
+ */
+export function walkWithContext(ast: any, visit: (node: any, context: WalkContext, resolver: NameResolver) => void) {
+    const resolver = new NameResolver();
+
+    const walk = (node: any, context: WalkContext) => {
+        if (!node || typeof node !== 'object') return;
+        if (Array.isArray(node)) {
+            for (const child of node) walk(child, context);
+            return;
+        }
+
+        let childContext = context;
+        if (node.kind === 'namespace') {
+            resolver.setNamespace(node.name);
+        } else if (node.kind === 'usegroup') {
+            resolver.addUseGroup(node);
+        } else if (node.kind === 'class' || node.kind === 'trait' || node.kind === 'enum' || node.kind === 'interface') {
+            const name = getNodeName(node.name);
+            const namespace = resolver.getNamespace();
+            const classFqn = name ? (namespace ? `${namespace}\\${name}` : name) : undefined;
+            childContext = { classFqn, scopes: context.scopes };
+        } else if (node.kind === 'method' && context.classFqn) {
+            const name = getNodeName(node.name);
+            if (name) {
+                childContext = { ...context, callable: { target: { kind: 'method', classFqn: context.classFqn, name }, node } };
+            }
+        } else if (node.kind === 'function') {
+            const name = getNodeName(node.name);
+            if (name) {
+                const namespace = resolver.getNamespace();
+                const fqn = namespace ? `${namespace}\\${name}` : name;
+                childContext = { ...context, callable: { target: { kind: 'function', fqn }, node } };
+            }
+        }
+        if (SCOPE_KINDS.includes(node.kind)) {
+            childContext = { ...childContext, scopes: [...context.scopes, node] };
+        }
+
+        if (node.kind) visit(node, childContext, resolver);
+
+        for (const key of Object.keys(node)) {
+            if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') continue;
+            const value = node[key];
+            if (value && typeof value === 'object') walk(value, childContext);
+        }
+    };
+
+    walk(ast.children || ast, { scopes: [ast] });
+}
+
+/**
+ * Class names in a resolved type string (`?Foo`, `Foo|Bar|null`, `Collection<int, User>`).
+ * Arrays of objects (`Foo[]`) are not objects themselves and are skipped.
+ *
+ * @param selfFqn What `self`, `static` and `$this` stand for
+ */
+export function classesFromType(type: string | undefined, selfFqn?: string): string[] {
+    if (!type) return [];
+
+    // Drop generic arguments, shapes and callable signatures, only the outer types matter here
+    let outer = type.replace(/^\?/, '');
+    let previous;
+    do {
+        previous = outer;
+        outer = outer.replace(/<[^<>]*>|\{[^{}]*\}|\([^()]*\)/g, '');
+    } while (outer !== previous);
+
+    const classes: string[] = [];
+    for (let part of outer.split(/[|&]/)) {
+        part = part.trim().replace(/^\?/, '');
+        if (/^(?:static|self|\$this)$/i.test(part)) {
+            if (selfFqn) classes.push(selfFqn);
+        } else if (/^\\?[A-Za-z_][\w\\]*$/.test(part) && !isBuiltinType(part) && !/^(?:parent|list|scalar|numeric|number)$/i.test(part)) {
+            classes.push(normalizeFqn(part));
+        }
+    }
+    return Array.from(new Set(classes));
+}
+
+/**
+ * Splits a type list at the top-level separators (`int, array<int, Foo>` gives two types).
+ */
+function splitTopLevel(list: string, separator = ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < list.length; i++) {
+        const char = list[i];
+        if ('<({['.includes(char)) depth++;
+        else if ('>)}]'.includes(char)) depth--;
+        else if (char === separator && depth === 0) {
+            parts.push(list.substring(start, i).trim());
+            start = i + 1;
+        }
+    }
+    parts.push(list.substring(start).trim());
+    return parts.filter(Boolean);
+}
+
+/**
+ * Classes of the elements of an iterable type: `Foo[]`, `array<int, Foo>`, `list<Foo>`,
+ * `iterable<Foo>`, `Generator<int, Foo>` and generic collections (`Collection<int, Foo>`,
+ * whose last argument is the value type by convention).
+ */
+export function iterableElementTypes(type: string | undefined, selfFqn?: string): string[] {
+    if (!type) return [];
+
+    const elements: string[] = [];
+    for (const part of splitTopLevel(type, '|').map(p => p.replace(/^\?/, ''))) {
+        const arrayOf = part.match(/^(.+)\[\]$/);
+        const generic = part.match(/^([\w\\-]+)<(.+)>$/);
+        if (arrayOf) {
+            elements.push(...classesFromType(arrayOf[1].replace(/^\((.*)\)$/, '$1'), selfFqn));
+        } else if (generic) {
+            const args = splitTopLevel(generic[2]);
+            const valueIndex = /(?:^|\\)Generator$/i.test(generic[1]) && args.length > 1 ? 1 : args.length - 1;
+            elements.push(...classesFromType(args[valueIndex], selfFqn));
+        }
+    }
+    return Array.from(new Set(elements));
+}
+
+/**
+ * Parameter types of a callable type (`callable(Foo, int): void`, `\Closure(Foo $foo): bool`).
+ */
+export function callableParamTypes(type: string | undefined): string[] {
+    // `Closure` may have been resolved into the current namespace
+    const signature = type?.match(/(?:^|[|?])(?:[\w\\]*\\)?(?:callable|Closure)\((.*)\)/i);
+    if (!signature) return [];
+    // Drop the parameter names (`Foo $foo`, `int ...$rest`)
+    return splitTopLevel(signature[1]).map(param => param.replace(/\s*&?(?:\.\.\.)?\$\w+$/, '').replace(/\s*=$/, '').trim());
+}
+
+/**
+ * Infers the classes PHP expressions evaluate to, from what the index knows: `new`,
+ * typed parameters and properties, `@var`/`@param`/`@return` docblocks, return types and
+ * assignments earlier in the same scope. Anything it cannot follow yields no type.
+ */
+export class TypeInference {
+    private indexer: Indexer;
+
+    constructor(indexer: Indexer) {
+        this.indexer = indexer;
+    }
+
+    /**
+     * @param offset Position in the file the expression is evaluated at; assignments after it are ignored
+     */
+    public inferClassTypes(expr: any, context: WalkContext, resolver: NameResolver, offset: number, depth = 0): string[] {
+        if (!expr || depth > MAX_INFERENCE_DEPTH) return [];
+
+        switch (expr.kind) {
+            case 'variable':
+                return typeof expr.name === 'string' ? this.inferVariableTypes(expr.name, context, resolver, offset, depth) : [];
+            case 'new': {
+                const classFqn = this.resolveClassReference(expr.what, context, resolver);
+                return classFqn ? [classFqn] : [];
+            }
+            case 'clone':
+                return this.inferClassTypes(expr.what, context, resolver, offset, depth + 1);
+            case 'assign':
+                return this.inferClassTypes(expr.right, context, resolver, offset, depth + 1);
+            case 'bin':
+                return expr.type === '??'
+                    ? this.union(expr.left, expr.right, context, resolver, offset, depth)
+                    : [];
+            case 'retif':
+                return this.union(expr.trueExpr || expr.test, expr.falseExpr, context, resolver, offset, depth);
+            case 'propertylookup':
+            case 'nullsafepropertylookup': {
+                const name = getNodeName(expr.offset);
+                if (!name) return [];
+                const receivers = this.inferClassTypes(expr.what, context, resolver, offset, depth + 1);
+                return this.flatMapUnique(receivers, receiver => this.inferPropertyTypes(receiver, name));
+            }
+            case 'staticlookup': {
+                // Only static properties (`Foo::$bar`) hold objects, constants are not followed
+                if (expr.offset?.kind !== 'variable' || typeof expr.offset.name !== 'string') return [];
+                const classFqn = this.resolveClassReference(expr.what, context, resolver);
+                return classFqn ? this.inferPropertyTypes(classFqn, expr.offset.name) : [];
+            }
+            case 'call':
+                return this.inferCallTypes(expr, context, resolver, offset, depth);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * The class a `self`/`static`/`parent`/named class reference stands for.
+     */
+    public resolveClassReference(node: any, context: WalkContext, resolver: NameResolver): string | undefined {
+        if (!node) return undefined;
+        if (node.kind === 'selfreference' || node.kind === 'staticreference') return context.classFqn;
+        if (node.kind === 'parentreference') {
+            return context.classFqn ? this.indexer.getInheritanceInfo(context.classFqn)?.extends : undefined;
+        }
+        if (node.kind === 'name') {
+            const name = node.name.toLowerCase();
+            if (name === 'self' || name === 'static') return context.classFqn;
+            if (name === 'parent') {
+                return context.classFqn ? this.indexer.getInheritanceInfo(context.classFqn)?.extends : undefined;
+            }
+            return resolver.resolveClassName(node.name, node.resolution);
+        }
+        return undefined;
+    }
+
+    /**
+     * Definitions of a member as seen from each of the given classes, walking up the
+     * inheritance chain (and traits/interfaces) like PHP's member lookup.
+     */
+    public findMemberDefinitions(classFqns: string[], name: string, kind: 'method' | 'property' | 'constant'): SymbolDef[] {
+        const defs: SymbolDef[] = [];
+        for (const classFqn of classFqns) {
+            if (kind === 'method') {
+                defs.push(...this.indexer.findMethod(classFqn, name));
+            } else if (kind === 'property') {
+                const property = this.indexer.findProperty(classFqn, name);
+                if (property) defs.push(property);
+            } else {
+                const enumCases = this.indexer.getEnumCaseDefinitions(`${classFqn}::${name}`);
+                const constant = enumCases.length === 0 ? this.indexer.findClassConstant(classFqn, name) : undefined;
+                defs.push(...enumCases, ...(constant ? [constant] : []));
+            }
+        }
+        // The same inherited member is reached from several receiver types
+        return defs.filter((def, i) => defs.findIndex(other => other.path === def.path && other.range?.isEqual(def.range!)) === i);
+    }
+
+    /**
+     * The functions, methods or constructors a `call` or `new` node may invoke.
+     */
+    public findCalleeDefinitions(node: any, context: WalkContext, resolver: NameResolver): SymbolDef[] {
+        if (node.kind === 'new') {
+            const classFqn = this.resolveClassReference(node.what, context, resolver);
+            return classFqn ? this.indexer.findMethod(classFqn, '__construct') : [];
+        }
+        if (node.kind !== 'call' || !node.loc) return [];
+        const defs = this.resolveCall(node, context, resolver, node.loc.start.offset, 0).map(callee => callee.def);
+        return defs.filter((def, i) => defs.indexOf(def) === i);
+    }
+
+    /**
+     * Elements of an iterable expression (what `foreach` binds its value variable to), from
+     * `Foo[]`, `array<int, Foo>`, `Collection<int, Foo>`... types.
+     */
+    public inferElementTypes(expr: any, context: WalkContext, resolver: NameResolver, offset: number, depth = 0): string[] {
+        if (!expr || depth > MAX_INFERENCE_DEPTH) return [];
+
+        switch (expr.kind) {
+            case 'variable':
+                return typeof expr.name === 'string' ? this.inferVariableTypes(expr.name, context, resolver, offset, depth, true) : [];
+            case 'assign':
+                return this.inferElementTypes(expr.right, context, resolver, offset, depth + 1);
+            case 'bin':
+            case 'retif': {
+                if (expr.kind === 'bin' && expr.type !== '??') return [];
+                const [left, right] = expr.kind === 'bin' ? [expr.left, expr.right] : [expr.trueExpr || expr.test, expr.falseExpr];
+                return Array.from(new Set([
+                    ...this.inferElementTypes(left, context, resolver, offset, depth + 1),
+                    ...this.inferElementTypes(right, context, resolver, offset, depth + 1)
+                ]));
+            }
+            case 'propertylookup':
+            case 'nullsafepropertylookup':
+            case 'staticlookup': {
+                const name = getNodeName(expr.offset);
+                if (!name || (expr.kind === 'staticlookup' && expr.offset.kind !== 'variable')) return [];
+                const receivers = expr.kind === 'staticlookup'
+                    ? [this.resolveClassReference(expr.what, context, resolver)].filter((fqn): fqn is string => !!fqn)
+                    : this.inferClassTypes(expr.what, context, resolver, offset, depth + 1);
+                return this.flatMapUnique(receivers, receiver => {
+                    const property = this.indexer.findProperty(receiver, name);
+                    return this.preferDocType(iterableElementTypes, property?.docType, property?.type, receiver);
+                });
+            }
+            case 'call':
+                return this.flatMapUnique(this.resolveCall(expr, context, resolver, offset, depth), callee =>
+                    this.preferDocType(iterableElementTypes, callee.def.docReturnType, callee.def.returnType, callee.receiver || callee.def.parent));
+            default:
+                return [];
+        }
+    }
+
+    private inferCallTypes(expr: any, context: WalkContext, resolver: NameResolver, offset: number, depth: number): string[] {
+        return this.flatMapUnique(this.resolveCall(expr, context, resolver, offset, depth), callee => this.returnClasses(callee.def, callee.receiver));
+    }
+
+    /**
+     * The definitions a call may invoke, with the receiver class for methods: `static` and
+     * `$this` return types are the receiver, not the declaring class.
+     */
+    private resolveCall(expr: any, context: WalkContext, resolver: NameResolver, offset: number, depth: number): { def: SymbolDef, receiver?: string }[] {
+        const what = expr.what;
+        if (!what) return [];
+
+        if (what.kind === 'name') {
+            const fqn = resolver.resolveFunctionName(what.name, what.resolution);
+            // Unqualified calls fall back to the global function
+            const defs = this.indexer.getFunctionDefinitions(fqn).length > 0 || what.resolution !== 'uqn'
+                ? this.indexer.getFunctionDefinitions(fqn)
+                : this.indexer.getFunctionDefinitions(what.name);
+            return defs.map(def => ({ def }));
+        }
+
+        const methodName = getNodeName(what.offset);
+        if (!methodName) return [];
+
+        let receivers: string[];
+        if (what.kind === 'staticlookup') {
+            const classFqn = this.resolveClassReference(what.what, context, resolver);
+            receivers = classFqn ? [classFqn] : [];
+        } else if (what.kind === 'propertylookup' || what.kind === 'nullsafepropertylookup') {
+            receivers = this.inferClassTypes(what.what, context, resolver, offset, depth + 1);
+        } else {
+            return [];
+        }
+
+        return receivers.flatMap(receiver => this.indexer.findMethod(receiver, methodName).map(def => ({ def, receiver })));
+    }
+
+    /**
+     * @param elements Infer the elements of the iterable the variable holds rather than its classes
+     */
+    private inferVariableTypes(name: string, context: WalkContext, resolver: NameResolver, offset: number, depth: number, elements = false): string[] {
+        if (name === 'this') {
+            return context.classFqn && !elements ? [context.classFqn] : [];
+        }
+
+        const scope = context.scopes[context.scopes.length - 1];
+        if (!scope) return [];
+
+        const fromType = elements ? iterableElementTypes : classesFromType;
+        const assigned = this.findLastAssignment(scope, name, resolver, offset);
+        if (assigned) {
+            if (assigned.docType !== undefined) {
+                return fromType(assigned.docType, context.classFqn);
+            }
+            if (assigned.iterated) {
+                // The elements of elements are not followed
+                return elements ? [] : this.inferElementTypes(assigned.iterated, context, resolver, assigned.offset, depth + 1);
+            }
+            return elements
+                ? this.inferElementTypes(assigned.expr, context, resolver, assigned.offset, depth + 1)
+                : this.inferClassTypes(assigned.expr, context, resolver, assigned.offset, depth + 1);
+        }
+
+        const param = (scope.arguments || []).find((p: any) => getNodeName(p.name) === name);
+        if (param) {
+            const doc = getDocComment(scope);
+            const docType = doc ? getDocTagType(doc, 'param', name) : undefined;
+            return this.preferDocType(fromType, docType ? resolver.resolveDocType(docType) : undefined,
+                resolver.resolveTypeNode(param.type, param.nullable), context.classFqn);
+        }
+
+        // Captured from the enclosing scope: `use ($x)` for closures, implicitly for arrow functions
+        const isCaptured = scope.kind === 'arrowfunc' ||
+            (scope.kind === 'closure' && (scope.uses || []).some((use: any) => use.name === name));
+        if (isCaptured && context.scopes.length > 1 && scope.loc) {
+            const outer = { ...context, scopes: context.scopes.slice(0, -1) };
+            return this.inferVariableTypes(name, outer, resolver, scope.loc.start.offset, depth + 1, elements);
+        }
+        return [];
+    }
+
+    /**
+     * The last thing that gave the variable a type before `offset` in the scope: an
+     * assignment, an inline `@var` docblock, a `foreach` over an iterable (`iterated`) or a
+     * `catch` clause. Nested functions, closures and classes have their own scopes and are
+     * not entered.
+     */
+    private findLastAssignment(scope: any, name: string, resolver: NameResolver, offset: number):
+        { offset: number, expr?: any, docType?: string, iterated?: any } | undefined {
+        let last: { offset: number, expr?: any, docType?: string, iterated?: any } | undefined;
+        const consider = (candidate: { offset: number, expr?: any, docType?: string, iterated?: any }) => {
+            if (candidate.offset <= offset && (!last || candidate.offset >= last.offset)) {
+                last = candidate;
+            }
+        };
+
+        const visit = (node: any, isScopeRoot: boolean) => {
+            if (!node || typeof node !== 'object') return;
+            if (Array.isArray(node)) {
+                for (const child of node) visit(child, false);
+                return;
+            }
+            if (!isScopeRoot && (SCOPE_KINDS.includes(node.kind) || node.kind === 'class')) return;
+
+            const doc = getDocComment(node);
+            if (doc && node.loc) {
+                const isOwnAssignment = node.kind === 'expressionstatement' && node.expression?.kind === 'assign' &&
+                    node.expression.left?.kind === 'variable' && node.expression.left.name === name;
+                // `/** @var Foo $x */` anywhere, or `/** @var Foo */` right before `$x = ...`
+                const docType = getDocTagType(doc, 'var', name) || (isOwnAssignment ? getDocTagType(doc, 'var') : undefined);
+                if (docType) {
+                    consider({ offset: node.loc.start.offset, docType: resolver.resolveDocType(docType) });
+                    if (isOwnAssignment) return;
+                }
+            }
+
+            if (node.kind === 'assign' && node.operator === '=' && node.left?.kind === 'variable' &&
+                node.left.name === name && node.loc && node.loc.end.offset <= offset) {
+                consider({ offset: node.loc.start.offset, expr: node.right });
+            } else if (node.kind === 'foreach' && node.value?.kind === 'variable' && node.value.name === name && node.loc) {
+                consider({ offset: node.loc.start.offset, iterated: node.source });
+            } else if (node.kind === 'catch' && getNodeName(node.variable) === name && node.loc) {
+                const types = (node.what || []).map((what: any) => resolver.resolveNameNode(what)).filter(Boolean);
+                consider({ offset: node.loc.start.offset, docType: types.join('|') });
+            }
+
+            for (const key of Object.keys(node)) {
+                if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') continue;
+                // Parameters are looked at separately, after assignments
+                if (isScopeRoot && key === 'arguments') continue;
+                const value = node[key];
+                if (value && typeof value === 'object') visit(value, false);
+            }
+        };
+
+        visit(scope, true);
+        return last;
+    }
+
+    /**
+     * Classes a property (declared or inherited) holds, preferring its `@var` type.
+     */
+    public inferPropertyTypes(classFqn: string, name: string): string[] {
+        const property = this.indexer.findProperty(classFqn, name);
+        if (!property) return [];
+        // The docblock usually narrows the declared type (`@var UserRepository` on a `RepositoryInterface`)
+        const docClasses = classesFromType(property.docType, classFqn);
+        return docClasses.length > 0 ? docClasses : classesFromType(property.type, classFqn);
+    }
+
+    private returnClasses(def: SymbolDef, receiver?: string): string[] {
+        return this.preferDocType(classesFromType, def.docReturnType, def.returnType, receiver || def.parent);
+    }
+
+    /**
+     * Reads the doc type first, which usually narrows the declared one (`Foo[]` on `array`).
+     */
+    private preferDocType(fromType: (type: string | undefined, selfFqn?: string) => string[], docType: string | undefined, type: string | undefined, selfFqn?: string): string[] {
+        const docTypes = fromType(docType, selfFqn);
+        return docTypes.length > 0 ? docTypes : fromType(type, selfFqn);
+    }
+
+    private union(left: any, right: any, context: WalkContext, resolver: NameResolver, offset: number, depth: number): string[] {
+        return Array.from(new Set([
+            ...this.inferClassTypes(left, context, resolver, offset, depth + 1),
+            ...this.inferClassTypes(right, context, resolver, offset, depth + 1)
+        ]));
+    }
+
+    private flatMapUnique<T>(items: T[], map: (item: T) => string[]): string[] {
+        return Array.from(new Set(items.flatMap(map)));
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Scope-aware analysis of local variables: which `$name` occurrences in a file are the
+ * same variable. Functions and methods have their own scope; closures share the variables
+ * they import with `use`, and arrow functions every variable of the enclosing scope that
+ * is not one of their parameters.
+ */
+
+import { getNodeName, walkWithContext } from './typeInference';
+
+export interface VariableOccurrence {
+    name: string; // Without `$`
+    loc: any; // php-parser location of `$name` (without a leading `&`)
+    isWrite: boolean; // Assigned, declared as a parameter, bound by foreach/catch/static/global
+    scope: any; // The function/method/closure/arrow function (or file) node owning the variable
+}
+
+function hasParameter(node: any, name: string): boolean {
+    return (node.arguments || []).some((param: any) => getNodeName(param.name) === name);
+}
+
+/**
+ * Finds the scope a variable used in the innermost of `scopes` belongs to.
+ */
+function resolveScope(scopes: any[], name: string): any {
+    let i = scopes.length - 1;
+    while (i > 0) {
+        const scope = scopes[i];
+        const inherited = scope.kind === 'arrowfunc'
+            ? !hasParameter(scope, name)
+            : scope.kind === 'closure' && (scope.uses || []).some((use: any) => use.name === name);
+        if (!inherited) break;
+        i--;
+    }
+    return scopes[i];
+}
+
+/**
+ * `$name` without the `&` of by-reference variables, which php-parser includes in the location.
+ */
+function nameLoc(loc: any, name: string): any {
+    const length = name.length + 1;
+    if (loc.end.offset - loc.start.offset === length) return loc;
+    return {
+        start: { line: loc.end.line, column: loc.end.column - length, offset: loc.end.offset - length },
+        end: loc.end
+    };
+}
+
+/**
+ * Every occurrence of a named local variable in the file. `$this`, variable variables and
+ * static properties (`Foo::$bar`) are not included.
+ */
+export function collectVariableOccurrences(ast: any): VariableOccurrence[] {
+    const occurrences: VariableOccurrence[] = [];
+    // Parents are visited before their children: remember which variables they write to
+    const writes = new Set<any>();
+    const staticProperties = new Set<any>();
+
+    const markWritten = (target: any) => {
+        if (!target) return;
+        if (target.kind === 'variable') {
+            writes.add(target);
+        } else if (target.kind === 'list' || target.kind === 'array') {
+            for (const item of target.items || []) {
+                markWritten(item?.kind === 'entry' ? item.value : item);
+            }
+        }
+    };
+
+    walkWithContext(ast, (node, context) => {
+        switch (node.kind) {
+            case 'assign':
+                markWritten(node.left);
+                break;
+            case 'foreach':
+                markWritten(node.key);
+                markWritten(node.value);
+                break;
+            case 'pre':
+            case 'post':
+                markWritten(node.what);
+                break;
+            case 'catch':
+                markWritten(node.variable);
+                break;
+            case 'staticvariable':
+                markWritten(node.variable);
+                break;
+            case 'global':
+                (node.items || []).forEach(markWritten);
+                break;
+            case 'staticlookup':
+                staticProperties.add(node.offset);
+                break;
+            case 'parameter': {
+                const name = getNodeName(node.name);
+                if (name && node.name.loc) {
+                    // The parameter belongs to the function it is declared on, the innermost scope
+                    occurrences.push({ name, loc: node.name.loc, isWrite: true, scope: context.scopes[context.scopes.length - 1] });
+                }
+                break;
+            }
+            case 'variable': {
+                if (typeof node.name !== 'string' || node.name === 'this' || !node.loc || staticProperties.has(node)) break;
+                occurrences.push({
+                    name: node.name,
+                    loc: nameLoc(node.loc, node.name),
+                    isWrite: writes.has(node),
+                    scope: resolveScope(context.scopes, node.name)
+                });
+                break;
+            }
+        }
+    });
+    return occurrences;
+}
+
+/**
+ * The occurrences of the variable at the offset (all in the same scope), or undefined when
+ * there is no variable there.
+ */
+export function findVariableOccurrences(ast: any, offset: number): VariableOccurrence[] | undefined {
+    const occurrences = collectVariableOccurrences(ast);
+    const target = occurrences.find(o => o.loc.start.offset <= offset && offset <= o.loc.end.offset);
+    if (!target) return undefined;
+    return occurrences.filter(o => o.name === target.name && o.scope === target.scope);
+}
@@ -3,12 +3,21 @@ import * as path from 'path';
 import * as fs from 'fs-extra';
 
 export async function initializeWorkspaceConfig(): Promise<void> {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceRoot) {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
         vscode.window.showErrorMessage('No workspace folder open');
         return;
     }
 
+    // In a multi-root workspace, each folder (project) gets its own settings
+    const folder = folders.length === 1
+        ? folders[0]
+        : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to configure' });
+    if (!folder) {
+        return;
+    }
+    const workspaceRoot = folder.uri.fsPath;
+
     const vscodeDir = path.join(workspaceRoot, '.vscode');
     const settingsPath = path.join(vscodeDir, 'settings.json');
 
@@ -77,7 +86,7 @@ export async function initializeWorkspaceConfig(): Promise<void> {
     );
 
     vscode.window.showInformationMessage(
-        'PHP Refactor Tools configuration created in .vscode/settings.json'
+        `PHP Refactor Tools configuration created in ${folder.name}/.vscode/settings.json`
     );
 
     // Optionally open the file
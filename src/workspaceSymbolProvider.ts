@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { Indexer, SymbolDef, getShortName } from './indexer';
+
+const MAX_RESULTS = 200;
+
+/**
+ * Scores how well a query matches a symbol name, or returns null when it does not match.
+ * Higher is better: exact > prefix > CamelCase abbreviation (`UsrCtl` → `UserController`)
+ * > substring > fuzzy subsequence.
+ */
+export function matchSymbolName(query: string, name: string): number | null {
+    const lowerQuery = query.toLowerCase();
+    const lowerName = name.toLowerCase();
+
+    if (lowerName === lowerQuery) return 100;
+    if (lowerName.startsWith(lowerQuery)) return 80;
+    if (matchesCamelCase(query, name)) return 60;
+    if (lowerName.includes(lowerQuery)) return 50;
+    if (isSubsequence(lowerQuery, lowerName)) return 20;
+    return null;
+}
+
+/**
+ * Each uppercase-led chunk of the query (`Usr`, `Ctl`) must match a hump of the name, in order:
+ * same first letter, the rest a subsequence of the hump. Humps may be skipped.
+ */
+function matchesCamelCase(query: string, name: string): boolean {
+    const chunks = query.match(/[A-Z_][^A-Z_]*|^[^A-Z_]+/g);
+    const humps = name.match(/[A-Z_]+(?![a-z])|[A-Z_]?[a-z0-9]+|[A-Z_]/g);
+    if (!chunks || !humps || chunks.length < 2) return false;
+
+    let hump = 0;
+    for (const chunk of chunks) {
+        const lowerChunk = chunk.toLowerCase();
+        let matched = false;
+        while (hump < humps.length && !matched) {
+            const lowerHump = humps[hump++].toLowerCase();
+            matched = lowerHump[0] === lowerChunk[0] && isSubsequence(lowerChunk.substring(1), lowerHump.substring(1));
+        }
+        if (!matched) return false;
+    }
+    return true;
+}
+
+function isSubsequence(query: string, text: string): boolean {
+    let i = 0;
+    for (let j = 0; j < text.length && i < query.length; j++) {
+        if (text[j] === query[i]) i++;
+    }
+    return i === query.length;
+}
+
+function toSymbolKind(kind: SymbolDef['kind']): vscode.SymbolKind {
+    switch (kind) {
+        case 'interface': return vscode.SymbolKind.Interface;
+        case 'enum': return vscode.SymbolKind.Enum;
+        case 'trait': return vscode.SymbolKind.Module;
+        case 'method': return vscode.SymbolKind.Method;
+        case 'function': return vscode.SymbolKind.Function;
+        case 'constant': return vscode.SymbolKind.Constant;
+        default: return vscode.SymbolKind.Class;
+    }
+}
+
+function getNamespace(fqn: string): string {
+    return fqn.includes('\\') ? fqn.substring(0, fqn.lastIndexOf('\\')) : '';
+}
+
+export class PhpWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    private indexer: Indexer;
+    private outputChannel: vscode.OutputChannel;
+
+    constructor(indexer: Indexer, outputChannel: vscode.OutputChannel) {
+        this.indexer = indexer;
+        this.outputChannel = outputChannel;
+    }
+
+    public provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): vscode.SymbolInformation[] {
+        query = query.trim().replace(/^\\/, '');
+        if (!query) return [];
+
+        const matches: { def: SymbolDef, score: number }[] = [];
+        const symbols = this.indexer.getSymbolsByKind(['class', 'interface', 'trait', 'enum', 'function', 'constant', 'method']);
+        for (const def of symbols) {
+            if (token.isCancellationRequested) return [];
+            const score = this.scoreSymbol(query, def);
+            if (score !== null) {
+                matches.push({ def, score });
+            }
+        }
+
+        matches.sort((a, b) => b.score - a.score || a.def.name.localeCompare(b.def.name));
+        this.outputChannel.appendLine(`[WorkspaceSymbols] ${matches.length} matches for: ${query}`);
+
+        return matches.slice(0, MAX_RESULTS).map(({ def }) => {
+            const range = def.range || new vscode.Range(0, 0, 0, 0);
+            // Types and functions show their namespace, methods their class
+            const container = def.kind === 'method' ? def.parent || '' : getNamespace(def.fqn || def.name);
+            return new vscode.SymbolInformation(
+                def.name,
+                toSymbolKind(def.kind),
+                container,
+                new vscode.Location(vscode.Uri.file(def.path), range)
+            );
+        });
+    }
+
+    /**
+     * Plain queries match the short name. `Ns\Name` queries also match the namespace
+     * (each segment fuzzily) and `Class::method` queries match the method's class.
+     */
+    private scoreSymbol(query: string, def: SymbolDef): number | null {
+        if (def.kind === 'method') {
+            const separator = query.indexOf('::');
+            if (separator === -1) {
+                return matchSymbolName(query, def.name);
+            }
+            const classScore = matchSymbolName(query.substring(0, separator), getShortName(def.parent || ''));
+            const methodQuery = query.substring(separator + 2);
+            const methodScore = methodQuery ? matchSymbolName(methodQuery, def.name) : 0;
+            return classScore === null || methodScore === null ? null : classScore + methodScore;
+        }
+        if (query.includes('::')) return null;
+
+        const fqn = def.fqn || def.name;
+        if (!query.includes('\\')) {
+            return matchSymbolName(query, def.name);
+        }
+
+        // Namespace segments of the query must match namespace segments of the FQN, in order
+        const querySegments = query.split('\\').filter(Boolean);
+        const nameQuery = querySegments.pop()!;
+        const nameScore = matchSymbolName(nameQuery, def.name);
+        if (nameScore === null) return null;
+
+        const namespaceSegments = getNamespace(fqn).split('\\');
+        let segment = 0;
+        for (const querySegment of querySegments) {
+            while (segment < namespaceSegments.length && matchSymbolName(querySegment, namespaceSegments[segment]) === null) {
+                segment++;
+            }
+            if (segment === namespaceSegments.length) return null;
+            segment++;
+        }
+        return nameScore;
+    }
+}
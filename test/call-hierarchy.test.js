@@ -0,0 +1,97 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpCallHierarchyProvider } = loadSrc('callHierarchyProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('call-hierarchy', {
+        'src/Base.php': `<?php
+namespace App;
+
+class Base {
+    public function run() {}
+    public static function create() {}
+}
+`,
+        'src/Child.php': `<?php
+namespace App;
+
+class Child extends Base {
+    public function start() {
+        $this->run();
+        self::create();
+    }
+}
+`,
+        'src/Other.php': `<?php
+namespace App;
+
+class Other {
+    public function run() {}
+}
+`,
+        'src/Consumer.php': `<?php
+namespace App\\Http;
+
+use App\\Child;
+use App\\Other;
+use function App\\Util\\helper;
+
+class Consumer {
+    public function handle(Child $c, Other $o) {
+        $c->run();
+        $o->run();
+        Child::create();
+        helper();
+    }
+}
+
+function boot() {
+    \\App\\Util\\helper();
+    \\helper();
+}
+`,
+        'src/functions.php': `<?php
+namespace App\\Util;
+
+function helper() {}
+`,
+        'src/global.php': `<?php
+function helper() {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpCallHierarchyProvider(indexer, outputChannel);
+
+    const incoming = async (file, needle) => {
+        const { document, position } = await openDocument(path.join(root, file), needle);
+        const item = provider.prepareCallHierarchy(document, position, token);
+        if (!item) return undefined;
+        const calls = await provider.provideCallHierarchyIncomingCalls(item, token);
+        return calls.map(call => `${path.basename(call.from.uri.fsPath)}:${call.from.name}:${call.fromRanges.map(r => r.start.line + 1).join(',')}`).sort();
+    };
+
+    const runCalls = await incoming('src/Base.php', 'run()');
+    check("Calls through a subclass-typed receiver and `$this` in a subclass", same(runCalls, ['Child.php:start:6', 'Consumer.php:handle:10']), runCalls);
+
+    const create = await incoming('src/Base.php', 'create()');
+    check("Static calls through a subclass and `self::`", same(create, ['Child.php:start:7', 'Consumer.php:handle:12']), create);
+
+    const other = await incoming('src/Other.php', 'run()');
+    check("Same-named method of an unrelated class is kept apart", same(other, ['Consumer.php:handle:11']), other);
+
+    const helper = await incoming('src/functions.php', 'helper()');
+    check("Function calls through `use function` and fully qualified names", same(helper, ['Consumer.php:boot:18', 'Consumer.php:handle:13']), helper);
+
+    const globalHelper = await incoming('src/global.php', 'helper()');
+    check("The global function of the same name is kept apart", same(globalHelper, ['Consumer.php:boot:19']), globalHelper);
+
+    const { document, position } = await openDocument(path.join(root, 'src/Child.php'), 'start()');
+    const item = provider.prepareCallHierarchy(document, position, token);
+    const outgoing = (await provider.provideCallHierarchyOutgoingCalls(item, token)).map(call => `${call.to.detail}::${call.to.name}`).sort();
+    check("Outgoing calls resolve to the declaring class", same(outgoing, ['App\\Base::create', 'App\\Base::run']), outgoing);
+});
@@ -0,0 +1,57 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { PhpClassCompletionProvider } = loadSrc('classCompletionProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('class-completion', {
+        'src/Model/User.php': `<?php\nnamespace App\\Model;\n\nclass User {}\n`,
+        'src/Model/UserStatus.php': `<?php\nnamespace App\\Model;\n\nenum UserStatus {}\n`,
+        'src/Legacy/User.php': `<?php\nnamespace Legacy;\n\nclass User {}\n`,
+        'src/Http/UserController.php': `<?php\nnamespace App\\Http;\n\nclass UserController {}\n`,
+        'src/Http/Request.php': `<?php\nnamespace App\\Http;\n\nclass Request {}\n`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpClassCompletionProvider(indexer, outputChannel);
+
+    // Completions with the cursor at `|`
+    const complete = (code) => {
+        const text = code.replace('|', '');
+        const document = vscode.createTextDocument(vscode.Uri.file(path.join(root, 'src/Http/Editing.php')), text);
+        const position = document.positionAt(code.indexOf('|'));
+        return { document, items: provider.provideCompletionItems(document, position, token, {}) };
+    };
+    const describe = (items) => items.map(item => `${item.detail}${item.insertText ? ` => ${item.insertText}` : ''}`).sort();
+
+    const header = `<?php\nnamespace App\\Http;\n\nuse App\\Model\\UserStatus;\n\nclass Editing {\n`;
+    const { items } = complete(`${header}    public function show(Us|`);
+    check("Classes starting with the typed letter, from every namespace", same(describe(items), [
+        'App\\Http\\UserController', 'App\\Model\\User', 'App\\Model\\UserStatus', 'Legacy\\User'
+    ]), describe(items));
+    check("Classes of the current namespace sort first", items.find(item => item.detail === 'App\\Http\\UserController').sortText < items.find(item => item.detail === 'App\\Model\\User').sortText);
+
+    const user = provider.resolveCompletionItem(items.find(item => item.detail === 'App\\Model\\User'), token);
+    const edits = (user.additionalTextEdits || []).map(edit => edit.newText);
+    check("Accepting a class adds its `use` statement to the sorted import block", same(edits, ['use App\\Model\\User;\nuse App\\Model\\UserStatus;']), edits);
+    const imported = provider.resolveCompletionItem(items.find(item => item.detail === 'App\\Model\\UserStatus'), token);
+    check("Imported classes need no edit", imported.additionalTextEdits === undefined);
+    const local = provider.resolveCompletionItem(items.find(item => item.detail === 'App\\Http\\UserController'), token);
+    check("Classes of the current namespace need no edit", local.additionalTextEdits === undefined);
+
+    const taken = complete(`<?php\nnamespace App\\Http;\n\nuse App\\Model\\User;\n\nnew Us|`).items;
+    check("A class whose short name is taken is inserted fully qualified", describe(taken).includes('Legacy\\User => \\Legacy\\User'), describe(taken));
+
+    const qualified = complete(`${header}    public function show(\\App\\M|`).items;
+    check("Qualified names insert the FQN", describe(qualified).includes('App\\Model\\User => \\App\\Model\\User'), describe(qualified));
+    const useStatement = complete(`<?php\nnamespace App\\Http;\n\nuse Leg|`).items;
+    check("`use` statements insert the FQN without a leading backslash", describe(useStatement).includes('Legacy\\User => Legacy\\User'), describe(useStatement));
+
+    check("No class names after `->`, `::`, `$` or `function`", ['$this->Us|', 'Foo::Us|', '$Us|', 'function Us|'].every(code => complete(`${header}${code}`).items.length === 0));
+    check("No class names in the namespace declaration", complete(`<?php\nnamespace App\\H|`).items.length === 0);
+    check("Other letters are filtered out", !describe(complete(`${header}    public function show(Re|`).items).some(item => item.includes('User')));
+});
@@ -0,0 +1,92 @@
+const path = require('path');
+const fs = require('fs-extra');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { PhpCodeLensProvider } = loadSrc('codeLensProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('code-lens', {
+        'src/Handler.php': `<?php
+namespace App;
+
+interface Handler {
+    public function handle();
+}
+`,
+        'src/Base.php': `<?php
+namespace App;
+
+class Base implements Handler {
+    public function handle() {}
+}
+`,
+        'src/Child.php': `<?php
+namespace App;
+
+class Child extends Base {
+    public function handle() {}
+}
+`,
+        'src/Unused.php': `<?php
+namespace App;
+
+class Unused {}
+`,
+        'src/Consumer.php': `<?php
+namespace App;
+
+function consume(Base $base) {
+    $base->handle();
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpCodeLensProvider(indexer, outputChannel);
+
+    // The lens titles of the file, resolved, by line
+    const lenses = async (file) => {
+        const { document } = await openDocument(path.join(root, file));
+        const titles = [];
+        for (const lens of provider.provideCodeLenses(document, token)) {
+            const resolved = await provider.resolveCodeLens(lens, token);
+            titles.push(`${resolved.range.start.line + 1}:${resolved.command.title}`);
+        }
+        return titles;
+    };
+
+    const handler = await lenses('src/Handler.php');
+    check("Interfaces count references and implementing classes, methods their implementations",
+        same(handler, ['4:1 reference', '4:2 implementations', '5:1 reference', '5:2 implementations']), handler);
+
+    const base = await lenses('src/Base.php');
+    check("Classes count subclasses, methods show the interface they implement",
+        same(base, ['4:2 references', '4:1 implementation', '5:1 reference', '5:1 implementation', '5:implements Handler::handle']), base);
+
+    const child = await lenses('src/Child.php');
+    check("Overriding methods link to the parent method", same(child, ['4:0 references', '5:1 reference', '5:overrides Base::handle']), child);
+
+    const { document } = await openDocument(path.join(root, 'src/Unused.php'));
+    const [unused] = provider.provideCodeLenses(document, token);
+    const command = (await provider.resolveCodeLens(unused, token)).command;
+    check("A lens without references is a plain label", same(command, { title: '0 references', command: '' }), command);
+
+    // Re-indexing a file refreshes the counts that depend on it
+    let changed = 0;
+    provider.onDidChangeCodeLenses(() => changed++);
+    await fs.writeFile(path.join(root, 'src/Consumer.php'), `<?php
+namespace App;
+
+function consume(Base $base, Unused $unused) {
+    $base->handle();
+}
+`);
+    await indexer.scanFile(vscode.Uri.file(path.join(root, 'src/Consumer.php')));
+    const refreshed = (await provider.resolveCodeLens(provider.provideCodeLenses(document, token)[0], token)).command.title;
+    check("Re-indexing a file refreshes the lenses", changed > 0 && refreshed === '1 reference', refreshed);
+    provider.dispose();
+});
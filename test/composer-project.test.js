@@ -0,0 +1,118 @@
+const path = require('path');
+const fs = require('fs-extra');
+const { loadSrc, createWorkspace, check, run } = require('./load-src');
+
+const { ComposerProject, parseAutoloadMap } = loadSrc('composerProject');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('composer-project', {
+        'composer.json': {
+            autoload: {
+                'psr-4': { 'App\\': 'src/', 'App\\Domain\\': 'domain/' },
+                'psr-0': { 'Legacy_': 'lib/' }
+            },
+            'autoload-dev': {
+                'psr-4': { 'App\\Tests\\': ['tests/', 'tests-integration/'] }
+            }
+        },
+        'vendor/composer/installed.json': {
+            packages: [{
+                name: 'acme/http',
+                'install-path': '../acme/http',
+                autoload: { 'psr-4': { 'Acme\\Http\\': 'src/' } }
+            }]
+        }
+    });
+    const project = new ComposerProject(root);
+    await project.load();
+
+    const namespaceOf = (file) => project.getNamespaceForPath(path.join(root, file));
+    check("PSR-4 root maps to its prefix", namespaceOf('src/User.php') === 'App');
+    check("PSR-4 subdirectories extend the prefix", namespaceOf('src/Http/Controllers/Home.php') === 'App\\Http\\Controllers');
+    check("Deepest PSR-4 root wins", namespaceOf('domain/Billing/Invoice.php') === 'App\\Domain\\Billing');
+    check("autoload-dev roots with several directories", namespaceOf('tests-integration/Api/Test.php') === 'App\\Tests\\Api');
+    check("PSR-0 directories hold the whole namespace", namespaceOf('lib/Legacy/Mailer/Smtp.php') === 'Legacy\\Mailer');
+    check("PSR-0 paths outside the prefix do not match", namespaceOf('lib/Other/Smtp.php') === '');
+    check("Installed packages map their own roots", namespaceOf('vendor/acme/http/src/Client/Request.php') === 'Acme\\Http\\Client');
+    check("Files outside every root have no namespace", namespaceOf('config/app.php') === '');
+
+    const directoriesOf = (namespace) => project.getDirectoriesForNamespace(namespace).map(d => path.relative(root, d));
+    const domain = directoriesOf('App\\Domain\\Billing');
+    check("Most specific prefix first", same(domain, ['domain/Billing', 'src/Domain/Billing']), domain);
+    const tests = directoriesOf('\\App\\Tests\\');
+    check("Every directory of the prefix, separators trimmed", same(tests, ['tests', 'tests-integration', 'src/Tests']), tests);
+    const legacy = directoriesOf('Legacy\\Mailer');
+    check("PSR-0 keeps the namespace in the path", same(legacy, ['lib/Legacy/Mailer']), legacy);
+    const vendor = directoriesOf('Acme\\Http');
+    check("Package roots are resolved from the install path", same(vendor, ['vendor/acme/http/src']), vendor);
+    check("Unknown namespaces have no directories", directoriesOf('Other').length === 0);
+
+    check("Class file candidates use the namespace directories",
+        same(project.getClassFileCandidates('App\\Models\\User').map(f => path.relative(root, f)), ['src/Models/User.php']));
+    check("Package of a vendor file", project.getPackageForPath(path.join(root, 'vendor/acme/http/src/Client.php'))?.name === 'acme/http');
+
+    // A load started before invalidate() must not overwrite the data of the next one
+    project.invalidate();
+    const stale = project.load();
+    project.invalidate();
+    await fs.writeJson(path.join(root, 'composer.json'), { autoload: { 'psr-4': { 'Renamed\\': 'src/' } } });
+    await Promise.all([project.load(), stale]);
+    check("Superseded load is dropped", namespaceOf('src/User.php') === 'Renamed', namespaceOf('src/User.php'));
+
+    const generated = parseAutoloadMap(`<?php
+
+// autoload_psr4.php @generated by Composer
+
+$vendorDir = dirname(__DIR__);
+$baseDir = dirname($vendorDir);
+
+return array(
+    'Acme\\\\Mail\\\\' => array($vendorDir . '/acme/mail/src', $vendorDir . '/acme/mail/compat'),
+    'App\\\\' => array($baseDir . '/app'),
+    'Plugin\\\\' => [__DIR__ . '/..' . '/plugin/src'],
+    'Quoted\\\\' => array($baseDir . '/it\\'s'),
+);
+`, '/project/vendor', '/project');
+    check("Generated map keys keep their PHP string value", same([...generated.keys()], ['Acme\\Mail\\', 'App\\', 'Plugin\\', 'Quoted\\']), [...generated.keys()]);
+    check("Every path of an entry", same(generated.get('Acme\\Mail\\'), ['/project/vendor/acme/mail/src', '/project/vendor/acme/mail/compat']));
+    check("$baseDir is the project root", same(generated.get('App\\'), ['/project/app']));
+    check("__DIR__ is vendor/composer, short arrays", same(generated.get('Plugin\\'), ['/project/vendor/plugin/src']), generated.get('Plugin\\'));
+    check("Escaped quotes in paths", same(generated.get('Quoted\\'), ["/project/it's"]), generated.get('Quoted\\'));
+
+    const classmap = parseAutoloadMap(`<?php
+return array(
+    'Composer\\\\InstalledVersions' => $vendorDir . '/composer/InstalledVersions.php',
+);
+`, '/project/vendor', '/project');
+    check("Class map entries have a single path", same(classmap.get('Composer\\InstalledVersions'), ['/project/vendor/composer/InstalledVersions.php']));
+
+    // Classes only the generated files know about are found through them
+    const generatedRoot = await createWorkspace('composer-generated', {
+        'composer.json': {},
+        'vendor/composer/autoload_psr4.php': `<?php
+$vendorDir = dirname(__DIR__);
+$baseDir = dirname($vendorDir);
+return array(
+    'Local\\\\' => array($baseDir . '/packages/local/src'),
+);
+`,
+        'vendor/composer/autoload_classmap.php': `<?php
+$vendorDir = dirname(__DIR__);
+return array(
+    'Legacy\\\\Helper' => $vendorDir . '/legacy/helper.php',
+);
+`
+    });
+    const generatedProject = new ComposerProject(generatedRoot);
+    await generatedProject.load();
+    check("Generated PSR-4 roots are used", generatedProject.getNamespaceForPath(path.join(generatedRoot, 'packages/local/src/Tool.php')) === 'Local');
+    check("Generated class map is used", await generatedProject.findClassFile('\\Legacy\\Helper') === path.join(generatedRoot, 'vendor/legacy/helper.php'));
+
+    // Unreadable files are reported to the output channel
+    const reported = [];
+    const brokenRoot = await createWorkspace('composer-broken', { 'composer.json': '{ not json' });
+    await new ComposerProject(brokenRoot, { appendLine: (line) => reported.push(line) }).load();
+    check("Unreadable composer.json is reported", reported.length === 1 && reported[0].startsWith('[Composer] Error reading'), reported);
+});
@@ -0,0 +1,111 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpDefinitionProvider } = loadSrc('definitionProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('definition-provider', {
+        'src/Mailer.php': `<?php
+namespace App;
+
+class Mailer {
+    public $transport;
+    public function send() {}
+    public function close() {}
+}
+`,
+        'src/Socket.php': `<?php
+namespace App;
+
+class Socket {
+    public function close() {}
+}
+`,
+        'src/functions.php': `<?php
+namespace App\\Util;
+
+const LIMIT = 10;
+
+function format() {}
+function local() {}
+`,
+        'src/global.php': `<?php
+define('LIMIT', 20);
+
+function format() {}
+function strlen_safe() {}
+`,
+        'src/Consumer.php': `<?php
+namespace App;
+
+use function App\\Util\\format;
+use const App\\Util\\LIMIT;
+
+class Consumer {
+    public function handle(Mailer $mailer, $unknown) {
+        $mailer->close();
+        $unknown->send();
+        $unknown->SEND();
+        $unknown->close();
+        $unknown->transport;
+        $mailer->missing();
+        format();
+        \\format();
+        strlen_safe();
+        Util\\local();
+        LIMIT;
+        \\LIMIT;
+    }
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpDefinitionProvider(indexer, outputChannel);
+
+    // Points at the member name following the nth `needle` (`->name`)
+    const definitions = async (needle, nth = 0, shift = 3) => {
+        const { document, position } = await openDocument(path.join(root, 'src/Consumer.php'), needle, nth, shift);
+        const locations = await provider.provideDefinition(document, position, token);
+        return locations.map(location => `${path.basename(location.uri.fsPath)}:${location.range.start.line + 1}`);
+    };
+
+    const typed = await definitions('->close();');
+    check("A typed receiver resolves to its class's method only", same(typed, ['Mailer.php:7']), typed);
+
+    const single = await definitions('->send();');
+    check("An unknown receiver falls back to the single class declaring the method", same(single, ['Mailer.php:6']), single);
+
+    const otherCase = await definitions('->SEND();');
+    check("Method names are compared case-insensitively", same(otherCase, ['Mailer.php:6']), otherCase);
+
+    const ambiguous = await definitions('->close();', 1);
+    check("No fallback when several classes declare the method", same(ambiguous, []), ambiguous);
+
+    const property = await definitions('->transport;');
+    check("Properties fall back the same way", same(property, ['Mailer.php:5']), property);
+
+    const missing = await definitions('->missing();');
+    check("A typed receiver without the member has no definition", same(missing, []), missing);
+
+    const imported = await definitions('format();', 0, 1);
+    check("`use function` imports resolve to the namespaced function", same(imported, ['functions.php:6']), imported);
+
+    const qualified = await definitions('\\format();', 0, 2);
+    check("Fully qualified calls resolve to the global function", same(qualified, ['global.php:4']), qualified);
+
+    const fallback = await definitions('strlen_safe();', 0, 1);
+    check("Unqualified calls fall back to the global function", same(fallback, ['global.php:5']), fallback);
+
+    const relative = await definitions('Util\\local();', 0, 6);
+    check("Qualified calls resolve relative to the namespace", same(relative, ['functions.php:7']), relative);
+
+    const constant = await definitions('LIMIT;', 1, 1);
+    check("`use const` imports resolve to the namespaced constant", same(constant, ['functions.php:4']), constant);
+
+    const globalConstant = await definitions('\\LIMIT;', 1, 2);
+    check("Fully qualified constants resolve to `define()`d ones", same(globalConstant, ['global.php:2']), globalConstant);
+});
@@ -0,0 +1,70 @@
+const path = require('path');
+const { loadSrc, createWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { PhpDocumentSymbolProvider } = loadSrc('documentSymbolProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+const KIND_NAMES = Object.fromEntries(Object.entries(vscode.SymbolKind).map(([name, value]) => [value, name]));
+
+run(async () => {
+    const root = await createWorkspace('document-symbols', {
+        'src/Order.php': `<?php
+namespace App;
+
+use App\\Model\\Customer;
+
+interface Shippable {}
+
+enum Status: string {
+    case Open = 'open';
+}
+
+class Order implements Shippable {
+    const PREFIX = 'ORD';
+    private static int $count = 0;
+
+    public function __construct(private readonly Customer $customer) {}
+
+    protected static function next(): int {}
+}
+
+function order_total() {}
+`
+    });
+    const provider = new PhpDocumentSymbolProvider(outputChannel);
+    const { document } = await openDocument(path.join(root, 'src/Order.php'));
+    const roots = provider.provideDocumentSymbols(document, token);
+
+    // Indented "Kind name [detail]" lines of the outline
+    const outline = [];
+    const print = (symbols, depth) => {
+        for (const symbol of symbols) {
+            outline.push(`${'  '.repeat(depth)}${KIND_NAMES[symbol.kind]} ${symbol.name}${symbol.detail ? ` [${symbol.detail}]` : ''}`);
+            print(symbol.children, depth + 1);
+        }
+    };
+    print(roots, 0);
+
+    check("Types, members and functions nested in their namespace, in source order", same(outline, [
+        'Namespace App',
+        '  Interface Shippable',
+        '  Enum Status [: string]',
+        '    EnumMember Open',
+        '  Class Order',
+        '    Constant PREFIX [public]',
+        '    Property $count [private static: int]',
+        '    Constructor __construct [public]',
+        '    Property $customer [private readonly: App\\Model\\Customer]',
+        '    Method next [protected static]',
+        '  Function order_total'
+    ]), outline);
+
+    const order = roots[0].children.find(symbol => symbol.name === 'Order');
+    const nameText = document.getText(order.selectionRange);
+    check("The selection range is the name", nameText === 'Order', nameText);
+
+    const broken = vscode.createTextDocument(vscode.Uri.file(path.join(root, 'broken.php')), '<?php class {');
+    check("Files that do not parse have no outline", provider.provideDocumentSymbols(broken, token).length === 0);
+});
@@ -0,0 +1,85 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpHoverProvider } = loadSrc('hoverProvider');
+
+run(async () => {
+    const root = await createWorkspace('hover', {
+        'src/Model.php': `<?php
+namespace App;
+
+abstract class Model {
+    /**
+     * Saves the model.
+     *
+     * Runs the saving events.
+     *
+     * @param array $options
+     */
+    public function save(array $options = [], bool ...$flags): static {}
+}
+`,
+        'src/User.php': `<?php
+namespace App;
+
+use App\\Contracts\\HasName;
+
+/**
+ * A registered user.
+ */
+final class User extends Model implements HasName {
+    public const ROLE = 'user';
+    protected ?string $email = null;
+}
+`,
+        'src/helpers.php': `<?php
+namespace App\\Support;
+
+/**
+ * Formats a price.
+ */
+function money(int|float $amount, string $currency = 'EUR'): string {}
+`,
+        'src/Controller.php': `<?php
+namespace App\\Http;
+
+use App\\User;
+use function App\\Support\\money;
+
+class Controller {
+    public function store(User $user) {
+        $user->save();
+        money(10);
+        User::ROLE;
+    }
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpHoverProvider(indexer, outputChannel);
+
+    const hoverAt = async (needle, shift = 1) => {
+        const { document, position } = await openDocument(path.join(root, 'src/Controller.php'), needle, 0, shift);
+        const hover = await provider.provideHover(document, position, token);
+        return hover ? hover.contents.map(content => content.value).join('\n') : undefined;
+    };
+
+    const user = await hoverAt('User $user');
+    check("Classes show their declaration, FQN and docblock summary",
+        user?.includes('class User extends Model implements HasName') && user.includes('`App\\User`') && user.includes('A registered user.'), user);
+
+    const save = await hoverAt('save()');
+    check("Methods show their signature with short type names", save?.includes('public function save(array $options = [], bool ...$flags): static'), save);
+    check("Methods show where they are declared and the docblock text without the tags", save?.includes('`App\\Model::save()` · inherited by `App\\User`')
+        && save.includes('Runs the saving events.') && !save.includes('@param'), save);
+
+    const money = await hoverAt('money(10)');
+    check("Imported functions", money?.includes("function money(int|float $amount, string $currency = 'EUR'): string") && money.includes('Formats a price.'), money);
+
+    const role = await hoverAt('ROLE;');
+    check("Class constants", role?.includes('public const ROLE') && role.includes('`App\\User::ROLE`'), role);
+
+    check("Nothing to show on keywords", await hoverAt('class Controller', 1) === undefined);
+});
@@ -0,0 +1,68 @@
+const path = require('path');
+const os = require('os');
+const fs = require('fs-extra');
+const { loadSrc, createWorkspace, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { INDEX_CACHE_SCHEMA_VERSION } = loadSrc('indexCache');
+
+// The bundled Indexer looks for the worker script next to itself
+const WORKER_PATH = path.join(os.tmpdir(), 'php-refactor-tools-test', 'indexWorker.js');
+
+run(async () => {
+    const root = await createWorkspace('index-cache', {
+        'src/Alpha.php': `<?php\nnamespace App;\n\nclass Alpha {}\n`,
+        'src/Beta.php': `<?php\nnamespace App;\n\nclass Beta {}\n`
+    });
+    const storage = await createWorkspace('index-cache-storage', {});
+    const cachePath = path.join(storage, 'index-cache.json');
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file(root), name: 'index-cache', index: 0 }];
+
+    // Scans the workspace with a fresh Indexer on the shared storage, returning it and its log
+    const scan = async () => {
+        const lines = [];
+        const indexer = new Indexer({ appendLine: line => lines.push(line) }, storage);
+        await indexer.scanWorkspace();
+        return { indexer, log: lines.join('\n') };
+    };
+
+    await fs.remove(WORKER_PATH);
+    let { indexer, log } = await scan();
+    check("Without the worker script files are parsed on the main thread", log.includes('parsing on the main thread'), log);
+    check("The first scan parses every file", log.includes('Reused 0 cached files, parsed 2.'), log);
+    check("The cache is written after a scan", await fs.pathExists(cachePath));
+
+    ({ indexer, log } = await scan());
+    check("Files with the cached mtime and size are reused", log.includes('Reused 2 cached files, parsed 0.'), log);
+    check("Reused files are indexed", indexer.getDefinitions('App\\Alpha').length === 1);
+
+    // Touched but identical, and modified
+    const alpha = path.join(root, 'src/Alpha.php');
+    const later = new Date(Date.now() + 60000);
+    await fs.utimes(alpha, later, later);
+    await fs.writeFile(path.join(root, 'src/Beta.php'), `<?php\nnamespace App;\n\nclass Gamma {}\n`);
+    ({ indexer, log } = await scan());
+    check("Touched files with the cached content hash are reused", log.includes('Reused 1 cached files, parsed 1.'), log);
+    check("Modified files are parsed again", indexer.getDefinitions('App\\Gamma').length === 1 && indexer.getDefinitions('App\\Beta').length === 0);
+
+    loadSrc('indexWorker');
+    const evenLater = new Date(Date.now() + 120000);
+    await fs.utimes(alpha, evenLater, evenLater);
+    await fs.writeFile(path.join(root, 'src/Beta.php'), `<?php\nnamespace App;\n\nclass Delta {}\n`);
+    ({ indexer, log } = await scan());
+    check("Files are parsed on worker threads when the script is there", !log.includes('parsing on the main thread'), log);
+    check("Workers reuse touched files by content hash too", log.includes('Reused 1 cached files, parsed 1.'), log);
+    check("Workers index modified files", indexer.getDefinitions('App\\Delta').length === 1 && indexer.getDefinitions('App\\Alpha').length === 1);
+
+    const contents = await fs.readJson(cachePath);
+    await fs.writeJson(cachePath, { ...contents, version: INDEX_CACHE_SCHEMA_VERSION - 1 });
+    ({ log } = await scan());
+    check("A cache written with another schema version is discarded", log.includes('Reused 0 cached files, parsed 2.'), log);
+
+    await fs.writeFile(cachePath, '{"version":');
+    ({ indexer, log } = await scan());
+    check("An unreadable cache is reported to the output channel", log.includes('Failed to load index cache'), log);
+    check("An unreadable cache is rebuilt from the files", indexer.getDefinitions('App\\Delta').length === 1 && log.includes('parsed 2.'), log);
+    await fs.remove(WORKER_PATH);
+});
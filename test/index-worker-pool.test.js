@@ -0,0 +1,42 @@
+const path = require('path');
+const { loadSrc, createWorkspace, check, run } = require('./load-src');
+
+const { IndexWorkerPool } = loadSrc('indexWorkerPool');
+
+run(async () => {
+    // Answers with the requested path, except for the files named after a way to die
+    const root = await createWorkspace('index-worker-pool', {
+        'worker.js': `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', (request) => {
+    if (request.fsPath === 'exit') process.exit(3);
+    if (request.fsPath === 'throw') setImmediate(() => { throw new Error('boom'); });
+    else parentPort.postMessage({ id: request.id, error: 'parsed ' + request.fsPath });
+});
+`,
+        'broken.js': `throw new Error('cannot start');`
+    });
+
+    const pool = new IndexWorkerPool(path.join(root, 'worker.js'), 1);
+    const parsed = await pool.parse('a.php');
+    check("Jobs are answered by a worker", parsed.error === 'parsed a.php', parsed);
+
+    const exited = await pool.parse('exit');
+    check("A worker exiting on a file fails that job", exited.error === 'Index worker exited with code 3', exited);
+    const afterExit = await pool.parse('b.php');
+    check("The exited worker is replaced", afterExit.error === 'parsed b.php', afterExit);
+
+    const thrown = await pool.parse('throw');
+    check("A worker crashing on a file fails that job with the error", thrown.error === 'boom', thrown);
+    const afterCrash = await Promise.all([pool.parse('c.php'), pool.parse('d.php')]);
+    check("The crashed worker is replaced and the queue drains", afterCrash.map(r => r.error).join() === 'parsed c.php,parsed d.php', afterCrash);
+
+    await pool.dispose();
+    const disposed = await pool.parse('e.php');
+    check("A disposed pool cancels new jobs", disposed.error === 'cancelled', disposed);
+
+    const broken = new IndexWorkerPool(path.join(root, 'broken.js'), 2);
+    const failed = await broken.parse('a.php');
+    check("Workers that cannot start fail the waiting jobs", failed.error === 'cannot start', failed);
+    await broken.dispose();
+});
@@ -0,0 +1,50 @@
+const path = require('path');
+const fs = require('fs-extra');
+const vscodeMock = require('./vscode-mock');
+const { loadSrc, createWorkspace, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+
+run(async () => {
+    const root = await createWorkspace('indexer-fqn', {
+        'src/Models/User.php': `<?php
+namespace App\\Models;
+
+class User {}
+`,
+        'src/Admin/User.php': `<?php
+namespace App\\Admin;
+
+interface User {}
+`
+    });
+    vscodeMock.workspace.workspaceFolders = [{ uri: vscodeMock.Uri.file(root), name: 'indexer-fqn' }];
+
+    const indexer = new Indexer();
+    const modelUri = vscodeMock.Uri.file(path.join(root, 'src/Models/User.php'));
+    const adminUri = vscodeMock.Uri.file(path.join(root, 'src/Admin/User.php'));
+    await indexer.scanFile(modelUri);
+    await indexer.scanFile(adminUri);
+
+    const model = indexer.getDefinitions('App\\Models\\User');
+    check("Class found by FQN", model.length === 1 && model[0].kind === 'class', model);
+    check("Leading backslash is ignored", indexer.getDefinitions('\\App\\Models\\User').length === 1);
+    check("FQN lookup does not match other namespaces", indexer.getDefinitions('App\\User').length === 0);
+
+    const byShortName = indexer.getDefinitionsByShortName('User').map(def => def.kind).sort();
+    check("Short name finds the class in every namespace", JSON.stringify(byShortName) === '["class","interface"]', byShortName);
+
+    indexer.removeFile(modelUri);
+    check("Removed file leaves the FQN index", indexer.getDefinitions('App\\Models\\User').length === 0);
+    check("Other definitions of the short name remain", indexer.getDefinitionsByShortName('User').length === 1);
+
+    // Re-indexing a file that moved its class to another namespace drops the old FQN
+    await fs.writeFile(adminUri.fsPath, `<?php
+namespace App\\Security;
+
+interface User {}
+`);
+    await indexer.scanFile(adminUri);
+    check("Re-indexed file drops its old FQN", indexer.getDefinitions('App\\Admin\\User').length === 0);
+    check("Re-indexed file adds its new FQN", indexer.getDefinitions('App\\Security\\User').length === 1);
+});
@@ -0,0 +1,68 @@
+const { loadSrc, createWorkspace, indexWorkspace, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('indexer-members', {
+        'src/Order.php': `<?php
+namespace App;
+
+use App\\Model\\Customer;
+
+class Order {
+    public const STATUS = 'new';
+    private const SECRET = 'x', OTHER = 'y';
+
+    /** @var Item[] */
+    protected array $items = [];
+    public static ?Order $last = null;
+    public $untyped;
+
+    /**
+     * @param Customer|null $customer
+     */
+    public function __construct(
+        private readonly Customer $customer,
+        protected int $total = 0,
+        string $notPromoted = ''
+    ) {}
+}
+`,
+        'src/Other.php': `<?php
+namespace App;
+
+class Other {
+    public $untyped;
+    const STATUS = 'other';
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+
+    const members = indexer.getMembers('App\\Order').map(member => `${member.kind}:${member.name}`);
+    check("Properties, constants and promoted parameters are indexed", same(members.sort(), [
+        'classConstant:OTHER', 'classConstant:SECRET', 'classConstant:STATUS',
+        'property:customer', 'property:items', 'property:last', 'property:total', 'property:untyped'
+    ]), members);
+
+    const items = indexer.getProperty('App\\Order', '$items');
+    check("Properties are looked up with or without `$`", items === indexer.getProperty('App\\Order', 'items') && items !== undefined);
+    check("Declared type, visibility and `@var` type", items?.type === 'array' && items.visibility === 'protected' && items.docType === 'App\\Item[]', items);
+
+    const last = indexer.getProperty('App\\Order', 'last');
+    check("Static nullable properties", last?.isStatic === true && last.type === '?App\\Order', last);
+
+    const customer = indexer.getProperty('App\\Order', 'customer');
+    check("Promoted parameters with their imported type and `@param` doc type", customer?.promoted === true && customer.isReadonly === true
+        && customer.visibility === 'private' && customer.type === 'App\\Model\\Customer' && customer.docType === 'App\\Model\\Customer|null', customer);
+    check("Parameters without visibility are not properties", indexer.getProperty('App\\Order', 'notPromoted') === undefined);
+
+    const secret = indexer.getClassConstant('App\\Order', 'SECRET');
+    check("Constant visibility", secret?.visibility === 'private' && indexer.getClassConstant('App\\Order', 'STATUS')?.visibility === 'public');
+
+    check("Properties by name across classes", same(indexer.getPropertiesByName('$untyped').map(member => member.parent).sort(), ['App\\Order', 'App\\Other']));
+    check("Class constants by name across classes", same(indexer.getClassConstantsByName('STATUS').map(member => member.parent).sort(), ['App\\Order', 'App\\Other']));
+});
@@ -0,0 +1,60 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('indexer-symbols', {
+        'src/Status.php': `<?php
+namespace App;
+
+enum Status: string {
+    case Active = 'active';
+    case Archived = 'archived';
+}
+
+enum Direction {
+    case Up;
+}
+`,
+        'src/functions.php': `<?php
+namespace App\\Util;
+
+const LIMIT = 10, OFFSET = 0;
+
+function format(string $value): string {}
+`,
+        'src/bootstrap.php': `<?php
+define('APP_ENV', 'test');
+define('App\\\\DEBUG', true);
+
+function format() {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+
+    const status = indexer.getDefinitions('App\\Status');
+    check("Enums are indexed with their backing type", status.length === 1 && status[0].kind === 'enum' && status[0].backingType === 'string', status);
+    check("Pure enums have no backing type", indexer.getDefinitions('App\\Direction')[0]?.backingType === undefined);
+    const active = indexer.getEnumCaseDefinitions('App\\Status::Active');
+    check("Enum cases are indexed under their enum", active.length === 1 && active[0].parent === 'App\\Status', active);
+    check("Enum cases by name", same(indexer.getEnumCasesByName('Up').map(def => def.parent), ['App\\Direction']));
+
+    const format = indexer.getFunctionDefinitions('App\\Util\\format');
+    check("Namespaced functions by FQN", format.length === 1 && path.basename(format[0].path) === 'functions.php', format);
+    check("Global functions by FQN", indexer.getFunctionDefinitions('format').length === 1);
+    check("Functions by short name", indexer.getFunctionsByShortName('format').length === 2);
+
+    check("`const` statements, one symbol per constant", indexer.getConstantDefinitions('App\\Util\\LIMIT').length === 1 && indexer.getConstantDefinitions('App\\Util\\OFFSET').length === 1);
+    check("`define()` calls", indexer.getConstantDefinitions('APP_ENV').length === 1);
+    check("`define()` with a namespaced name", indexer.getConstantDefinitions('App\\DEBUG').length === 1);
+    check("Constants by short name", indexer.getConstantsByShortName('DEBUG').length === 1);
+
+    // Functions and constants leave the index with their file
+    indexer.removeFile(vscode.Uri.file(path.join(root, 'src/bootstrap.php')));
+    check("Removed files take their functions and constants along", indexer.getFunctionDefinitions('format').length === 0 && indexer.getConstantDefinitions('APP_ENV').length === 0);
+});
@@ -0,0 +1,69 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { PhpInlayHintsProvider } = loadSrc('inlayHintsProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('inlay-hints', {
+        'src/Mailer.php': `<?php
+namespace App;
+
+class User {}
+
+class Mailer {
+    public function __construct(string $host, int $port = 25) {}
+
+    public function send(string $to, bool $retry = false, string ...$cc) {}
+
+    /**
+     * @param callable(User): bool $filter
+     */
+    public function each(callable $filter) {}
+
+    /** @return User[] */
+    public function recipients(): array {}
+}
+`,
+        'src/Controller.php': `<?php
+namespace App;
+
+function handle(Mailer $mailer, string $address) {
+    $mailer = new Mailer('localhost', -1);
+    $mailer->send($address, true, 'a', 'b');
+    $mailer->send('x', retry: false);
+    $mailer->each(fn($user) => true);
+    foreach ($mailer->recipients() as $recipient) {
+    }
+    array_map(function ($user) {}, $mailer->recipients());
+    array_filter($mailer->recipients(), fn($key) => true, ARRAY_FILTER_USE_KEY);
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpInlayHintsProvider(indexer, outputChannel);
+
+    const { document } = await openDocument(path.join(root, 'src/Controller.php'));
+    const hintsIn = (range) => provider.provideInlayHints(document, range, token)
+        .map(hint => `${hint.position.line + 1}:${hint.position.character}:${hint.label}`);
+
+    const hints = hintsIn(new vscode.Range(0, 0, document.lineCount, 0));
+    check("Literal arguments, variadics, closure parameters and foreach values", same(hints, [
+        '5:25:host:',
+        '5:38:port:',
+        '6:28:retry:',
+        '6:34:cc:',
+        '6:39:cc:',
+        '7:18:to:',
+        '8:21:User',
+        '9:48:: User',
+        '11:24:User'
+    ]), hints);
+
+    const visible = hintsIn(new vscode.Range(5, 0, 6, 0));
+    check("Only hints in the requested range", same(visible, ['6:28:retry:', '6:34:cc:', '6:39:cc:']), visible);
+});
@@ -0,0 +1,113 @@
+const path = require('path');
+const os = require('os');
+const fs = require('fs-extra');
+const Module = require('module');
+const esbuild = require('esbuild');
+
+// `require('vscode')` gets the mock, both in tests and in the bundled src modules, so they
+// share one instance (workspace folders, open documents...)
+const MOCK_PATH = path.resolve(__dirname, 'vscode-mock.js');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...args) {
+    return request === 'vscode' ? MOCK_PATH : resolveFilename.call(this, request, ...args);
+};
+
+/**
+ * Bundles a module of src/ and requires it.
+ */
+function loadSrc(name) {
+    const outfile = path.join(os.tmpdir(), 'php-refactor-tools-test', `${name}.js`);
+    esbuild.buildSync({
+        entryPoints: [path.resolve(__dirname, '../src', `${name}.ts`)],
+        bundle: true,
+        format: 'cjs',
+        platform: 'node',
+        outfile,
+        external: ['vscode'],
+        logLevel: 'silent'
+    });
+    return require(outfile);
+}
+
+/**
+ * A fresh directory under the system temp dir, filled with the given files (relative path => content).
+ */
+async function createWorkspace(name, files) {
+    const root = path.join(os.tmpdir(), 'php-refactor-tools-test', name);
+    await fs.emptyDir(root);
+    for (const [file, content] of Object.entries(files)) {
+        const filePath = path.join(root, file);
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+    }
+    return root;
+}
+
+/**
+ * Makes the directory the only workspace folder and indexes its PHP files (vendor included).
+ */
+async function indexWorkspace(indexer, root) {
+    const vscode = require('vscode');
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file(root), name: path.basename(root), index: 0 }];
+    const scan = async (dir) => {
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await scan(entryPath);
+            } else if (entry.name.endsWith('.php')) {
+                await indexer.scanFile(vscode.Uri.file(entryPath));
+            }
+        }
+    };
+    await scan(root);
+}
+
+/**
+ * The file as a text document, with the position of the nth occurrence of `needle` (plus
+ * `shift` characters) to point providers at.
+ */
+async function openDocument(filePath, needle, nth = 0, shift = 1) {
+    const vscode = require('vscode');
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    if (needle === undefined) return { document };
+    const text = document.getText();
+    let offset = -1;
+    for (let i = 0; i <= nth; i++) {
+        offset = text.indexOf(needle, offset + 1);
+        if (offset === -1) throw new Error(`${needle} #${nth} not found in ${filePath}`);
+    }
+    return { document, position: document.positionAt(offset + shift) };
+}
+
+const token = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => { } }) };
+
+const outputChannel = { lines: [], appendLine(line) { this.lines.push(line); }, append() { }, show() { }, clear() { } };
+
+let failures = 0;
+
+function check(description, condition, detail) {
+    if (condition) {
+        console.log(`PASS: ${description}`);
+    } else {
+        failures++;
+        console.error(`FAIL: ${description}`, detail === undefined ? '' : detail);
+    }
+}
+
+/**
+ * Runs the checks of a test file and exits non-zero if any of them failed.
+ */
+function run(test) {
+    test().then(() => {
+        if (failures > 0) {
+            console.error(`${failures} check(s) failed`);
+            process.exit(1);
+        }
+        console.log("ALL TESTS PASSED");
+    }).catch(e => {
+        console.error(e);
+        process.exit(1);
+    });
+}
+
+module.exports = { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run };
@@ -0,0 +1,85 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { PhpMemberCompletionProvider } = loadSrc('memberCompletionProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('member-completion', {
+        'src/Model.php': `<?php
+namespace App;
+
+trait Timestamps {
+    private $createdAt;
+    public function touch() {}
+}
+
+abstract class Model {
+    use Timestamps;
+    const TABLE = 'models';
+    public static $booted = false;
+    protected $attributes = [];
+    private $secret;
+    public function __construct() {}
+    public function save(array $options = []) {}
+    public static function query() {}
+    protected function fill() {}
+    private function hidden() {}
+}
+
+class User extends Model {
+    public function save(array $options = []) {}
+    public function name() {}
+}
+
+class Admin extends User {
+    public function run() {}
+    public function save(array $options = []) {}
+}
+
+enum Status {
+    case Active;
+    case Banned;
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpMemberCompletionProvider(indexer, outputChannel);
+
+    // Labels suggested with the cursor at `|`, sorted
+    const complete = (code) => {
+        const text = `<?php\nnamespace App;\n\n${code}`;
+        const document = vscode.createTextDocument(vscode.Uri.file(path.join(root, 'src/Editing.php')), text.replace('|', ''));
+        const items = provider.provideCompletionItems(document, document.positionAt(text.indexOf('|')), token, {});
+        return items.map(item => typeof item.label === 'string' ? item.label : item.label.label).sort();
+    };
+
+    const outside = complete('function f(User $user) { $user->|');
+    check("Public instance members from outside, inherited and trait ones included", same(outside, ['name', 'save', 'touch']), outside);
+
+    const inside = complete('class Admin extends User { public function run() { $this->| } }');
+    check("Protected members from a subclass, private ones left out", same(inside, ['attributes', 'fill', 'name', 'run', 'save', 'touch']), inside);
+
+    const typed = complete('function f(User $user) { $user->sa|');
+    check("The member being typed is replaced, the editor filters", same(typed, outside), typed);
+
+    const statics = complete('User::|');
+    check("`::` offers static members, constants and `class`", same(statics, ['$booted', 'TABLE', 'class', 'query']), statics);
+
+    const parent = complete('class Admin extends User { public function save(array $options = []) { parent::| } }');
+    check("`parent::` from an instance method offers instance methods and the constructor", same(parent, ['$booted', 'TABLE', '__construct', 'class', 'fill', 'name', 'query', 'save', 'touch']), parent);
+
+    const cases = complete('Status::|');
+    check("Enum cases", same(cases, ['Active', 'Banned', 'class']), cases);
+
+    const document = vscode.createTextDocument(vscode.Uri.file(path.join(root, 'src/Editing.php')), '<?php\nfunction f(App\\User $user) { $user->');
+    const [save] = provider.provideCompletionItems(document, document.positionAt(document.getText().length), token, {})
+        .filter(item => item.label.label === 'save');
+    check("Methods with parameters insert a snippet and trigger parameter hints", save?.insertText.value === 'save($0)' && save.command?.command === 'editor.action.triggerParameterHints', save);
+
+    check("Unknown receivers have no suggestions", complete('$unknown->|').length === 0);
+});
@@ -0,0 +1,104 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { ReferenceFinder } = loadSrc('referenceFinder');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('member-references', {
+        'src/Runner.php': `<?php
+namespace App;
+
+interface Runner {
+    public function run();
+}
+`,
+        'src/Base.php': `<?php
+namespace App;
+
+class Base implements Runner {
+    public $count;
+    const LIMIT = 1;
+    public function run() {}
+}
+`,
+        'src/Child.php': `<?php
+namespace App;
+
+class Child extends Base {
+    public function run() {
+        parent::run();
+        $this->count = self::LIMIT;
+        $this->count = $this->count - 1;
+        return $this->count + static::LIMIT;
+    }
+    public function again() {
+        self::run();
+        static::run();
+    }
+}
+`,
+        'src/Unrelated.php': `<?php
+namespace App;
+
+class Unrelated {
+    public $count;
+    public function run() {}
+}
+`,
+        'src/consume.php': `<?php
+namespace App;
+
+function consume(Runner $runner, Unrelated $unrelated, Child $child) {
+    $runner->run();
+    $unrelated->run();
+    $child->RUN();
+    $unrelated->count = 1;
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const finder = new ReferenceFinder(indexer);
+
+    // file:line:kind of each reference, declarations marked, in file order
+    const describe = (references) => references
+        .sort((a, b) => (a.uri.fsPath < b.uri.fsPath ? -1 : a.uri.fsPath > b.uri.fsPath ? 1 : 0) || a.range.start.compareTo(b.range.start))
+        .map(reference => `${path.basename(reference.uri.fsPath)}:${reference.range.start.line + 1}:${reference.isDeclaration ? 'declaration' : reference.kind}`);
+
+    const { document, position } = await openDocument(path.join(root, 'src/consume.php'), '->RUN', 0, 2);
+    const target = finder.findMemberAt(document, position);
+    check("Accesses resolve to the member of the receiver's class", same(target, { kind: 'method', classFqn: 'App\\Child', name: 'run' }), target);
+
+    const runs = describe(await finder.findMemberReferences({ kind: 'method', classFqn: 'App\\Base', name: 'run' }, token));
+    check("Overrides, interface implementations, `parent::`, `self::` and `static::` calls", same(runs, [
+        'Base.php:7:declaration',
+        'Child.php:5:declaration',
+        'Child.php:6:read',
+        'Child.php:12:read',
+        'Child.php:13:read',
+        'Runner.php:5:declaration',
+        'consume.php:5:read',
+        'consume.php:7:read'
+    ]), runs);
+
+    const fromInterface = describe(await finder.findMemberReferences({ kind: 'method', classFqn: 'App\\Runner', name: 'run' }, token));
+    check("The interface method finds the same family", same(fromInterface, runs), fromInterface);
+
+    const unrelated = describe(await finder.findMemberReferences({ kind: 'method', classFqn: 'App\\Unrelated', name: 'run' }, token));
+    check("A method of the same name elsewhere is kept apart", same(unrelated, ['Unrelated.php:6:declaration', 'consume.php:6:read']), unrelated);
+
+    const count = describe(await finder.findMemberReferences({ kind: 'property', classFqn: 'App\\Base', name: 'count' }, token));
+    check("Property assignments are writes", same(count, [
+        'Base.php:5:declaration',
+        'Child.php:7:write',
+        'Child.php:8:write',
+        'Child.php:8:read',
+        'Child.php:9:read'
+    ]), count);
+
+    const limit = describe(await finder.findMemberReferences({ kind: 'constant', classFqn: 'App\\Base', name: 'LIMIT' }, token));
+    check("Class constants through `self::` and `static::`", same(limit, ['Base.php:6:declaration', 'Child.php:7:read', 'Child.php:9:read']), limit);
+});
@@ -0,0 +1,40 @@
+const { loadSrc, createWorkspace, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const api = await createWorkspace('multi-root-api', {
+        'src/User.php': `<?php\nnamespace Api;\n\nclass User {}\n`,
+        'src/Post.php': `<?php\nnamespace Api;\n\nclass Post {}\n`
+    });
+    const admin = await createWorkspace('multi-root-admin', {
+        'src/User.php': `<?php\nnamespace Admin;\n\nclass User extends \\Api\\User {}\n`
+    });
+    const apiFolder = { uri: vscode.Uri.file(api), name: 'api', index: 0 };
+    const adminFolder = { uri: vscode.Uri.file(admin), name: 'admin', index: 1 };
+    vscode.workspace.workspaceFolders = [apiFolder, adminFolder];
+
+    const lines = [];
+    const indexer = new Indexer({ appendLine: line => lines.push(line) });
+    await indexer.scanWorkspace();
+    const stats = () => Object.fromEntries(Array.from(indexer.getFolderStats(), ([folder, count]) => [vscode.Uri.parse(folder).fsPath, count]));
+
+    check("Every folder is scanned into its own partition", same(stats(), { [api]: 2, [admin]: 1 }), stats());
+    check("Symbols of all folders are indexed together", indexer.getDefinitions('Api\\User').length === 1 && indexer.getDefinitions('Admin\\User').length === 1);
+    check("Inheritance crosses folders", same(indexer.getSubclasses('Api\\User'), ['Admin\\User']), indexer.getSubclasses('Api\\User'));
+
+    vscode.workspace.workspaceFolders = [apiFolder];
+    indexer.removeFolder(adminFolder);
+    check("Removing a folder drops its files", indexer.getDefinitions('Admin\\User').length === 0 && same(stats(), { [api]: 2 }), stats());
+    check("The other folders are kept", indexer.getDefinitions('Api\\Post').length === 1);
+    check("Inheritance of the removed folder is dropped", indexer.getSubclasses('Api\\User').length === 0, indexer.getSubclasses('Api\\User'));
+    check("The removal is logged", lines.some(line => line.includes('Removing 1 files of folder admin')), lines);
+
+    vscode.workspace.workspaceFolders = [apiFolder, adminFolder];
+    await indexer.scanFolder(adminFolder);
+    check("An added folder is indexed into its partition", indexer.getDefinitions('Admin\\User').length === 1 && same(stats(), { [api]: 2, [admin]: 1 }), stats());
+    check("Adding a folder leaves the others indexed", indexer.getDefinitions('Api\\Post').length === 1);
+});
@@ -0,0 +1,73 @@
+const { Engine } = require('php-parser');
+const { loadSrc, createWorkspace, indexWorkspace, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { NameResolver } = loadSrc('nameResolver');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const resolver = new NameResolver();
+    resolver.setNamespace('App\\Http');
+    resolver.addUse('App\\Model\\User');
+    resolver.addUse('\\App\\Model\\Post', 'Article');
+    resolver.addUse('App\\Util\\format', undefined, 'function');
+    resolver.addUse('App\\Util\\LIMIT', undefined, 'const');
+
+    check("Imported names", resolver.resolveClassName('User') === 'App\\Model\\User');
+    check("Import aliases are case-insensitive", resolver.resolveClassName('article') === 'App\\Model\\Post');
+    check("Qualified names start from an import", resolver.resolveClassName('User\\Profile') === 'App\\Model\\User\\Profile');
+    check("Other names are in the current namespace", resolver.resolveClassName('Controller') === 'App\\Http\\Controller');
+    check("Fully qualified names lose their leading backslash", resolver.resolveClassName('\\Other\\User') === 'Other\\User');
+    check("`namespace\\` relative names", resolver.resolveClassName('namespace\\Middleware\\Auth') === 'App\\Http\\Middleware\\Auth');
+    check("`self`, `static`, `parent` and builtin types are kept", ['self', 'static', 'parent', 'int', 'array'].every(name => resolver.resolveClassName(name) === name));
+
+    check("`use function` imports", resolver.resolveFunctionName('FORMAT') === 'App\\Util\\format');
+    check("Functions that are not imported are in the current namespace", resolver.resolveFunctionName('strlen') === 'App\\Http\\strlen');
+    check("`use const` imports", resolver.resolveConstantName('LIMIT') === 'App\\Util\\LIMIT');
+    check("Constant imports are case-sensitive", resolver.resolveConstantName('limit') === 'App\\Http\\limit');
+
+    resolver.setNamespace('Other');
+    check("Imports end with their namespace", resolver.resolveClassName('User') === 'Other\\User');
+
+    const parser = new Engine({ ast: { withPositions: true } });
+    const ast = parser.parseCode(`<?php
+namespace App;
+use App\\Model\\{User, Post as Article};
+use function App\\Util\\{format, slug};
+`, 'use.php');
+    const grouped = new NameResolver();
+    grouped.setNamespace('App');
+    for (const node of ast.children[0].children) {
+        if (node.kind === 'usegroup') grouped.addUseGroup(node);
+    }
+    check("Group `use` syntax", same(
+        [grouped.resolveClassName('User'), grouped.resolveClassName('Article'), grouped.resolveFunctionName('slug')],
+        ['App\\Model\\User', 'App\\Model\\Post', 'App\\Util\\slug']));
+
+    const root = await createWorkspace('name-resolver', {
+        'src/User.php': `<?php
+namespace App;
+
+use Base\\Model as BaseModel;
+
+class User extends BaseModel implements \\JsonSerializable, Contracts\\HasName {}
+`,
+        'src/Contracts/Named.php': `<?php
+namespace App\\Contracts;
+
+use Countable;
+
+interface Named extends HasName, Countable {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+
+    const user = indexer.getInheritanceInfo('App\\User');
+    check("`extends` and `implements` are indexed by FQN", user?.extends === 'Base\\Model' && same(user.implements, ['JsonSerializable', 'App\\Contracts\\HasName']), user);
+    const named = indexer.getInheritanceInfo('App\\Contracts\\Named');
+    check("Interfaces extending interfaces", same(named?.implements, ['App\\Contracts\\HasName', 'Countable']), named);
+    check("Implementations are looked up by FQN", same(indexer.getImplementations('App\\Contracts\\HasName').sort(), ['App\\Contracts\\Named', 'App\\User']));
+    check("Usages are indexed by FQN", indexer.getCandidates('Base\\Model').length === 1 && indexer.getCandidates('Model').length === 0);
+});
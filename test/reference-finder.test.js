@@ -0,0 +1,101 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { ReferenceFinder } = loadSrc('referenceFinder');
+const { PhpReferenceProvider } = loadSrc('referenceProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('reference-finder', {
+        'src/Model/User.php': `<?php
+namespace App\\Model;
+
+class User {}
+`,
+        'src/Model/UserNotFound.php': `<?php
+namespace App\\Model;
+
+class UserNotFound extends \\Exception {}
+`,
+        'src/Attributes/Tracked.php': `<?php
+namespace App\\Attributes;
+
+#[\\Attribute]
+class Tracked {}
+`,
+        'src/Other/User.php': `<?php
+namespace Other;
+
+class User {}
+`,
+        'src/Http/Controller.php': `<?php
+namespace App\\Http;
+
+use App\\Model\\User as Account;
+use App\\Model\\UserNotFound;
+use App\\Attributes\\Tracked;
+use Other\\User;
+
+#[Tracked]
+class Controller {
+    /** @var Account[] */
+    private array $accounts;
+
+    /**
+     * @param Account|null $account
+     * @return \\App\\Model\\User
+     */
+    public function show($account, User $other) {
+        if ($account instanceof Account) {
+        }
+        try {
+        } catch (UserNotFound $e) {
+        }
+        return Account::class;
+    }
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const finder = new ReferenceFinder(indexer);
+
+    // file:line:column:kind of each reference, in file order
+    const describe = (references) => references
+        .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.range.start.compareTo(b.range.start))
+        .map(reference => `${path.basename(reference.uri.fsPath)}:${reference.range.start.line + 1}:${reference.range.start.character}:${reference.kind}`);
+
+    const controller = path.join(root, 'src/Http/Controller.php');
+    const { document, position } = await openDocument(controller, 'User as', 0, 1);
+    check("Names in `use` statements resolve to the imported class", finder.findClassAt(document, position) === 'App\\Model\\User');
+    const alias = await openDocument(controller, 'Account::class', 0, 1);
+    check("Aliases resolve to the imported class", finder.findClassAt(alias.document, alias.position) === 'App\\Model\\User');
+    const docblock = await openDocument(controller, 'Account|null', 0, 1);
+    check("Docblock types resolve through imports", finder.findClassAt(docblock.document, docblock.position) === 'App\\Model\\User');
+
+    const user = describe(await finder.findClassReferences('App\\Model\\User', token));
+    check("Imports, aliases, docblocks, `instanceof` and `::class`, not the class of the same name", same(user, [
+        'Controller.php:4:4:read',
+        'Controller.php:11:13:read',
+        'Controller.php:15:14:read',
+        'Controller.php:16:15:read',
+        'Controller.php:19:32:read',
+        'Controller.php:24:15:read',
+        'User.php:4:6:write'
+    ]), user);
+
+    const other = describe(await finder.findClassReferences('Other\\User', token));
+    check("Type hints by short name", same(other, ['Controller.php:7:4:read', 'Controller.php:18:35:read', 'User.php:4:6:write']), other);
+
+    const caught = describe(await finder.findClassReferences('App\\Model\\UserNotFound', token));
+    check("`catch` types", same(caught, ['Controller.php:5:4:read', 'Controller.php:22:17:read', 'UserNotFound.php:4:6:write']), caught);
+
+    const tracked = describe(await finder.findClassReferences('App\\Attributes\\Tracked', token));
+    check("Attributes", same(tracked, ['Tracked.php:5:6:write', 'Controller.php:6:4:read', 'Controller.php:9:2:read']), tracked);
+
+    const provider = new PhpReferenceProvider(indexer, outputChannel);
+    const locations = await provider.provideReferences(alias.document, alias.position, { includeDeclaration: false }, token);
+    check("Find All References leaves the declaration out when asked to", locations.length === 6, locations.length);
+});
@@ -0,0 +1,18 @@
+const path = require('path');
+const fs = require('fs-extra');
+const { spawnSync } = require('child_process');
+
+// Every test/*.test.js, each in its own process: the vscode mock and the bundled src modules hold state
+const files = fs.readdirSync(__dirname).filter(file => file.endsWith('.test.js')).sort();
+const failed = [];
+for (const file of files) {
+    console.log(`\n# ${file}`);
+    const result = spawnSync(process.execPath, [path.join(__dirname, file)], { stdio: 'inherit' });
+    if (result.status !== 0) failed.push(file);
+}
+
+if (failed.length > 0) {
+    console.error(`\nFailed: ${failed.join(', ')}`);
+    process.exit(1);
+}
+console.log(`\n${files.length} test files passed`);
@@ -0,0 +1,72 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, token, outputChannel, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+const { PhpSignatureHelpProvider } = loadSrc('signatureHelpProvider');
+
+run(async () => {
+    const root = await createWorkspace('signature-help', {
+        'src/Mailer.php': `<?php
+namespace App;
+
+class Mailer {
+    /**
+     * @param string[] $to
+     */
+    public function __construct(array $to, ?string $subject = null) {}
+
+    public function send(string $body, bool $html = false, string ...$attachments): bool {}
+
+    public static function make(): static {}
+}
+`,
+        'src/helpers.php': `<?php
+namespace App\\Support;
+
+/**
+ * Sends everything.
+ */
+function dispatch(int $delay, string $queue = 'default') {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpSignatureHelpProvider(indexer, outputChannel);
+
+    // Signature help with the cursor at `|`, in a file that is still being typed
+    const helpAt = (code) => {
+        const text = `<?php\nnamespace App\\Http;\n\nuse App\\Mailer;\nuse function App\\Support\\dispatch;\n\n${code}`;
+        const offset = text.indexOf('|');
+        const document = vscode.createTextDocument(vscode.Uri.file(path.join(root, 'src/Editing.php')), text.replace('|', ''));
+        const help = provider.provideSignatureHelp(document, document.positionAt(offset), token, {});
+        if (!help) return undefined;
+        const signature = help.signatures[help.activeSignature];
+        const parameter = signature.parameters[help.activeParameter];
+        return {
+            label: signature.label,
+            active: parameter && signature.label.substring(...parameter.label),
+            parameterDocumentation: parameter?.documentation,
+            documentation: signature.documentation?.value
+        };
+    };
+
+    const constructor = helpAt('$mailer = new Mailer(|');
+    check("Constructors are shown as the class name", constructor?.label === 'Mailer(array $to, ?string $subject = null)' && constructor.active === 'array $to', constructor);
+    check("Parameters document a more precise doc type", constructor?.parameterDocumentation === 'string[]', constructor);
+
+    const method = helpAt('function f(Mailer $mailer) { $mailer->send("a, b", |');
+    check("Methods through the receiver's type, commas in strings ignored", method?.label === 'send(string $body, bool $html = false, string ...$attachments): bool' && method.active === 'bool $html = false', method);
+
+    const variadic = helpAt('function f(Mailer $mailer) { $mailer->send("a", true, "x", "y", |');
+    check("Arguments past a variadic parameter stay on it", variadic?.active === 'string ...$attachments', variadic);
+
+    const named = helpAt('dispatch(queue: |');
+    check("Named arguments pick the parameter by name", named?.active === "string $queue = 'default'" && named.documentation === 'Sends everything.', named);
+
+    const nested = helpAt('dispatch(strlen([1, 2]), |');
+    check("Nested calls and arrays are skipped", nested?.active === "string $queue = 'default'", nested);
+
+    check("Control structures are not calls", helpAt('if (|') === undefined);
+    check("Unknown functions have no signature", helpAt('unknown(|') === undefined);
+});
@@ -0,0 +1,56 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpTypeDefinitionProvider } = loadSrc('typeDefinitionProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('type-definition', {
+        'src/Models.php': `<?php
+namespace App;
+
+class Customer {}
+class Invoice {}
+`,
+        'src/Order.php': `<?php
+namespace App;
+
+class Order {
+    /** @var Invoice|null */
+    private $invoice;
+
+    public function __construct(private Customer $customer) {}
+
+    public function customer(): Customer {
+        return $this->customer;
+    }
+
+    public function send(Customer $to) {
+        $order = new Order($to);
+        $order->customer();
+        $this->invoice;
+        $unknown;
+    }
+}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpTypeDefinitionProvider(indexer, outputChannel);
+
+    const typesAt = async (needle, nth = 0, shift = 1) => {
+        const { document, position } = await openDocument(path.join(root, 'src/Order.php'), needle, nth, shift);
+        const locations = await provider.provideTypeDefinition(document, position, token);
+        return locations.map(location => `${path.basename(location.uri.fsPath)}:${location.range.start.line + 1}`);
+    };
+
+    check("Variables assigned with `new`", same(await typesAt('$order->'), ['Order.php:4']));
+    check("Typed parameters", same(await typesAt('$to)'), ['Models.php:4']));
+    check("The return type of a called method", same(await typesAt('customer();'), ['Models.php:4']));
+    check("Properties typed by `@var`, nullable", same(await typesAt('invoice;', 1), ['Models.php:5']));
+    check("Promoted constructor parameters", same(await typesAt('$customer)', 0), ['Models.php:4']));
+    check("Property declarations", same(await typesAt('$invoice;'), ['Models.php:5']));
+    check("Untyped variables have no type definition", same(await typesAt('$unknown'), []));
+});
@@ -0,0 +1,57 @@
+const path = require('path');
+const fs = require('fs-extra');
+const { loadSrc, createWorkspace, indexWorkspace, check, run } = require('./load-src');
+
+const vscode = require('vscode');
+const { Indexer } = loadSrc('indexer');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('type-hierarchy-queries', {
+        'src/contracts.php': `<?php
+namespace App;
+
+interface Entity {}
+interface Named extends Entity {}
+`,
+        'src/models.php': `<?php
+namespace App;
+
+abstract class Model implements Named {}
+class User extends Model {}
+class Admin extends User implements \\Countable {}
+`,
+        'src/cycle.php': `<?php
+namespace App;
+
+class Ping extends Pong {}
+class Pong extends Ping {}
+interface Left extends Right {}
+interface Right extends Left {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+
+    check("Subtypes through interfaces extending interfaces and subclasses", same(indexer.getSubtypes('App\\Entity').sort(), ['App\\Admin', 'App\\Model', 'App\\Named', 'App\\User']));
+    check("Subtypes of a class", same(indexer.getSubtypes('\\App\\Model').sort(), ['App\\Admin', 'App\\User']));
+    check("Supertypes, nearest first", same(indexer.getSupertypes('App\\Admin'), ['App\\User', 'Countable', 'App\\Model', 'App\\Named', 'App\\Entity']));
+    check("Ancestor chain of a class, up to the first class that is not indexed", same(indexer.getAncestorsChain('App\\Admin'), ['App\\User', 'App\\Model']));
+
+    check("Cyclic class hierarchies terminate", same(indexer.getSubtypes('App\\Ping'), ['App\\Pong']) && same(indexer.getSupertypes('App\\Ping'), ['App\\Pong']));
+    check("Cyclic interface hierarchies terminate", same(indexer.getSubtypes('App\\Left'), ['App\\Right']) && same(indexer.getSupertypes('App\\Right'), ['App\\Left']));
+    check("Cyclic ancestor chains terminate", same(indexer.getAncestorsChain('App\\Ping'), ['App\\Pong']));
+
+    // The reverse edges are rebuilt when a file is re-indexed
+    const models = path.join(root, 'src/models.php');
+    await fs.writeFile(models, `<?php
+namespace App;
+
+abstract class Model implements Named {}
+class User extends Model {}
+class Admin implements \\Countable {}
+`);
+    await indexer.scanFile(vscode.Uri.file(models));
+    check("Re-indexed files update the subtypes", same(indexer.getSubtypes('App\\Model'), ['App\\User']));
+});
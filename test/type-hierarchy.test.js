@@ -0,0 +1,69 @@
+const path = require('path');
+const { loadSrc, createWorkspace, indexWorkspace, openDocument, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpTypeHierarchyProvider } = loadSrc('typeHierarchyProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const root = await createWorkspace('type-hierarchy', {
+        'src/contracts.php': `<?php
+namespace App;
+
+interface Entity {}
+interface Named extends Entity {}
+trait HasName {}
+`,
+        'src/Model.php': `<?php
+namespace App;
+
+abstract class Model implements Named {
+    use HasName;
+}
+`,
+        'src/User.php': `<?php
+namespace App;
+
+class User extends Model {}
+`,
+        'src/Legacy/Model.php': `<?php
+namespace Legacy;
+
+class Model {}
+`,
+        'src/Legacy/Record.php': `<?php
+namespace Legacy;
+
+use App\\Model as AppModel;
+
+class Record extends AppModel {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpTypeHierarchyProvider(indexer, outputChannel);
+
+    const prepare = async (file, needle) => {
+        const { document, position } = await openDocument(path.join(root, file), needle);
+        return provider.prepareTypeHierarchy(document, position, token);
+    };
+    const describe = (items) => items.map(item => `${item.name} (${item.detail})`).sort();
+
+    const [model] = await prepare('src/Model.php', 'Model implements');
+    check("The declared type is prepared with its namespace", model?.name === 'Model' && model.detail === 'App', model);
+    const supertypes = describe(provider.provideTypeHierarchySupertypes(model, token));
+    check("Supertypes with the kind of edge", same(supertypes, ['HasName (uses trait · App)', 'Named (implements · App)']), supertypes);
+    const subtypes = describe(provider.provideTypeHierarchySubtypes(model, token));
+    check("Direct subtypes across namespaces", same(subtypes, ['Record (extends · Legacy)', 'User (extends · App)']), subtypes);
+
+    const [named] = await prepare('src/contracts.php', 'Named');
+    check("Interfaces extend interfaces", same(describe(provider.provideTypeHierarchySupertypes(named, token)), ['Entity (extends · App)']));
+    check("Interface subtypes implement it", same(describe(provider.provideTypeHierarchySubtypes(named, token)), ['Model (implements · App)']));
+
+    const [trait] = await prepare('src/contracts.php', 'HasName');
+    check("Traits list the classes using them", same(describe(provider.provideTypeHierarchySubtypes(trait, token)), ['Model (used by · App)']));
+
+    const alias = await prepare('src/Legacy/Record.php', 'AppModel {');
+    check("Names at the cursor resolve through imports, not by short name", alias.length === 1 && alias[0].fqn === 'App\\Model', alias.map(item => item.fqn));
+});
@@ -0,0 +1,136 @@
+const path = require('path');
+const { Engine } = require('php-parser');
+const { loadSrc, createWorkspace, indexWorkspace, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { TypeInference, walkWithContext } = loadSrc('typeInference');
+
+const parser = new Engine({
+    parser: { extractDoc: true },
+    ast: { withPositions: true }
+});
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+const models = `<?php
+namespace App\\Models;
+
+trait HasName {
+    public function rename(): static {}
+}
+
+class Model {
+    use HasName;
+    /** @var Query */
+    protected $query;
+    public function newQuery(): Query {}
+    public static function make(): static {}
+}
+
+class User extends Model {
+    public ?Profile $profile;
+    public const TABLE = 'users';
+}
+
+class Profile {}
+
+class Query {
+    /** @return User[] */
+    public function get(): array {}
+    public function first(): ?User {}
+}
+
+interface Repository {
+    public function find(int $id): Model;
+}
+`;
+
+const code = `<?php
+namespace App\\Http;
+
+use App\\Models\\User as Account;
+use App\\Models\\Profile;
+use App\\Models\\Repository;
+
+class Controller {
+    private Repository $repository;
+
+    /**
+     * @param Profile|null $fallback
+     */
+    public function show(Account $account, $fallback, Repository $repo) {
+        $fromNew = new Account();
+        $chained = $account->newQuery()->first();
+        $fluent = Account::make()->rename();
+        $property = $account->profile;
+        $either = $fallback ?? $account->profile;
+        /** @var Account $annotated */
+        $annotated = $repo->find(1);
+        $annotated;
+        $found = $repo->find(2);
+        foreach ($account->newQuery()->get() as $item) {
+            $item;
+        }
+        try {
+        } catch (\\RuntimeException | \\LogicException $error) {
+            $error;
+        }
+        $closure = function () use ($account) {
+            $account;
+        };
+        $arrow = fn() => $fromNew;
+        $later;
+        $later = new Account();
+        $this->repository;
+    }
+}
+`;
+
+run(async () => {
+    const root = await createWorkspace('type-inference', { 'src/Models.php': models, 'src/Controller.php': code });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const inference = new TypeInference(indexer);
+    const ast = parser.parseCode(code, path.join(root, 'src/Controller.php'));
+
+    /**
+     * Classes of the expression starting at the nth `needle`, as inferred where it stands.
+     */
+    const typesAt = (needle, nth = 0) => {
+        let offset = -1;
+        for (let i = 0; i <= nth; i++) offset = code.indexOf(needle, offset + 1);
+        let types;
+        walkWithContext(ast, (node, context, resolver) => {
+            if (types === undefined && node.loc?.start.offset === offset && node.kind !== 'expressionstatement') {
+                types = inference.inferClassTypes(node, context, resolver, offset);
+            }
+        });
+        return types;
+    };
+
+    check("`new` through an import alias", same(typesAt('new Account()'), ['App\\Models\\User']), typesAt('new Account()'));
+    check("Typed parameter", same(typesAt('$account', 1), ['App\\Models\\User']));
+    check("Method chain through declared return types", same(typesAt('$chained', 0), ['App\\Models\\User']), typesAt('$chained', 0));
+    check("`static` return types are the receiver, through traits", same(typesAt('$fluent'), ['App\\Models\\User']), typesAt('$fluent'));
+    check("Nullable typed property", same(typesAt('$property'), ['App\\Models\\Profile']));
+    check("`??` unites both sides, `@param` docblock types", same(typesAt('$either'), ['App\\Models\\Profile']), typesAt('$either'));
+    check("Inline `@var` wins over the return type", same(typesAt('$annotated;'), ['App\\Models\\User']), typesAt('$annotated;'));
+    check("Interface return type", same(typesAt('$found'), ['App\\Models\\Model']), typesAt('$found'));
+    check("`foreach` value from a `@return User[]` docblock", same(typesAt('$item;'), ['App\\Models\\User']), typesAt('$item;'));
+    check("`catch` with several types", same(typesAt('$error;'), ['RuntimeException', 'LogicException']), typesAt('$error;'));
+    check("Closure `use` variables keep their type", same(typesAt('$account;'), ['App\\Models\\User']), typesAt('$account;'));
+    check("Arrow functions see the enclosing scope", same(typesAt('$fromNew;'), ['App\\Models\\User']), typesAt('$fromNew;'));
+    check("Assignments after the expression are ignored", same(typesAt('$later;'), []), typesAt('$later;'));
+    check("Typed property through `$this`", same(typesAt('$this->repository'), ['App\\Models\\Repository']));
+
+    const name = (defs) => defs.map(def => `${def.parent}::${def.name}`);
+    const inherited = name(inference.findMemberDefinitions(['App\\Models\\User'], 'newQuery', 'method'));
+    check("Methods are found on the parent class", same(inherited, ['App\\Models\\Model::newQuery']), inherited);
+    const fromTrait = name(inference.findMemberDefinitions(['App\\Models\\User'], 'rename', 'method'));
+    check("Methods are found on used traits", same(fromTrait, ['App\\Models\\HasName::rename']), fromTrait);
+    const constant = name(inference.findMemberDefinitions(['App\\Models\\User'], 'TABLE', 'constant'));
+    check("Class constants", same(constant, ['App\\Models\\User::TABLE']), constant);
+    const query = name(inference.findMemberDefinitions(['App\\Models\\User'], 'query', 'property'));
+    check("Inherited properties", same(query, ['App\\Models\\Model::query']), query);
+    check("Unknown members have no definition", inference.findMemberDefinitions(['App\\Models\\User'], 'missing', 'method').length === 0);
+});
@@ -0,0 +1,67 @@
+const { Engine } = require('php-parser');
+const { loadSrc, check, run } = require('./load-src');
+
+const { findVariableOccurrences } = loadSrc('variableScope');
+
+const parser = new Engine({
+    parser: { extractDoc: true },
+    ast: { withPositions: true }
+});
+
+const code = `<?php
+function first($item) {
+    $total = 0;
+    $add = function ($value) use (&$total) {
+        $total += $value;
+        $item = null;
+    };
+    $double = fn($value) => $value * 2 + $total;
+    foreach ([1, 2] as $item) {
+        $add($item);
+    }
+    return $total;
+}
+
+function second() {
+    $total = 1;
+    return $total;
+}
+`;
+const ast = parser.parseCode(code, 'test.php');
+
+/**
+ * The occurrences of the variable at the nth `needle`, as line number plus `w`(rite) or
+ * `r`(ead), so failures show which occurrences were matched.
+ */
+function occurrencesAt(needle, nth = 0) {
+    let offset = -1;
+    for (let i = 0; i <= nth; i++) {
+        offset = code.indexOf(needle, offset + 1);
+    }
+    const occurrences = findVariableOccurrences(ast, offset + 1);
+    return occurrences && occurrences.map(o => `${o.loc.start.line}${o.isWrite ? 'w' : 'r'}`);
+}
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    const total = occurrencesAt('$total');
+    check("Closure `use` shares the variable, arrow functions inherit it", same(total, ['3w', '4r', '5w', '8r', '12r']), total);
+
+    const otherTotal = occurrencesAt('$total', 5);
+    check("Another function has its own variable of the same name", same(otherTotal, ['16w', '17r']), otherTotal);
+
+    const item = occurrencesAt('$item');
+    check("Closure variables not imported with `use` are local to the closure", same(item, ['2w', '9w', '10r']), item);
+
+    const closureItem = occurrencesAt('$item', 1);
+    check("A closure local does not match the enclosing variable", same(closureItem, ['6w']), closureItem);
+
+    const closureParam = occurrencesAt('$value');
+    check("Closure parameter is local to the closure", same(closureParam, ['4w', '5r']), closureParam);
+
+    const arrowParam = occurrencesAt('$value', 2);
+    check("Arrow function parameter shadows the enclosing scope", same(arrowParam, ['8w', '8r']), arrowParam);
+
+    check("No occurrences outside a variable", occurrencesAt('function') === undefined);
+});
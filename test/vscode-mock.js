@@ -9,6 +9,10 @@ class Uri {
     static file(path) {
         return new Uri(path);
     }
+    // toString() gives the plain path, parse() takes it back
+    static parse(value) {
+        return new Uri(value.startsWith('file://') ? decodeURIComponent(value.substring('file://'.length)) : value);
+    }
     toString() {
         return this.fsPath;
     }
@@ -19,15 +23,257 @@ class Position {
         this.line = line;
         this.character = character;
     }
+    compareTo(other) {
+        return this.line !== other.line ? this.line - other.line : this.character - other.character;
+    }
+    isBefore(other) {
+        return this.compareTo(other) < 0;
+    }
+    isAfter(other) {
+        return this.compareTo(other) > 0;
+    }
+    isEqual(other) {
+        return this.compareTo(other) === 0;
+    }
+    translate(lineDelta = 0, characterDelta = 0) {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
 }
 
 class Range {
-    constructor(start, end) {
-        this.start = start;
-        this.end = end;
+    // Range(start, end) or Range(startLine, startCharacter, endLine, endCharacter)
+    constructor(start, end, endLine, endCharacter) {
+        this.start = typeof start === 'number' ? new Position(start, end) : start;
+        this.end = typeof start === 'number' ? new Position(endLine, endCharacter) : end;
+    }
+    contains(positionOrRange) {
+        if (positionOrRange instanceof Range) {
+            return this.contains(positionOrRange.start) && this.contains(positionOrRange.end);
+        }
+        return this.start.compareTo(positionOrRange) <= 0 && this.end.compareTo(positionOrRange) >= 0;
+    }
+    isEqual(other) {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+}
+
+class Location {
+    constructor(uri, rangeOrPosition) {
+        this.uri = uri;
+        this.range = rangeOrPosition instanceof Position ? new Range(rangeOrPosition, rangeOrPosition) : rangeOrPosition;
+    }
+}
+
+const SymbolKind = {
+    File: 0, Module: 1, Namespace: 2, Package: 3, Class: 4, Method: 5, Property: 6, Field: 7,
+    Constructor: 8, Enum: 9, Interface: 10, Function: 11, Variable: 12, Constant: 13, String: 14,
+    Number: 15, Boolean: 16, Array: 17, Object: 18, Key: 19, Null: 20, EnumMember: 21, Struct: 22,
+    Event: 23, Operator: 24, TypeParameter: 25
+};
+
+class SymbolInformation {
+    constructor(name, kind, containerName, location) {
+        Object.assign(this, { name, kind, containerName, location });
+    }
+}
+
+class DocumentSymbol {
+    constructor(name, detail, kind, range, selectionRange) {
+        Object.assign(this, { name, detail, kind, range, selectionRange, children: [] });
+    }
+}
+
+class CallHierarchyItem {
+    constructor(kind, name, detail, uri, range, selectionRange) {
+        Object.assign(this, { kind, name, detail, uri, range, selectionRange });
+    }
+}
+
+class TypeHierarchyItem {
+    constructor(kind, name, detail, uri, range, selectionRange) {
+        Object.assign(this, { kind, name, detail, uri, range, selectionRange });
+    }
+}
+
+class CallHierarchyIncomingCall {
+    constructor(from, fromRanges) {
+        this.from = from;
+        this.fromRanges = fromRanges;
+    }
+}
+
+class CallHierarchyOutgoingCall {
+    constructor(to, fromRanges) {
+        this.to = to;
+        this.fromRanges = fromRanges;
+    }
+}
+
+/**
+ * A text document with the parts of vscode.TextDocument the providers use.
+ */
+function createTextDocument(uri, text, languageId = 'php') {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+    const offsetAt = (position) => Math.min(lineStarts[position.line] + position.character, text.length);
+    const positionAt = (offset) => {
+        let line = 0;
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+        return new Position(line, offset - lineStarts[line]);
+    };
+    return {
+        uri,
+        fileName: uri.fsPath,
+        languageId,
+        version: 1,
+        isDirty: false,
+        lineCount: lineStarts.length,
+        getText: (range) => range ? text.substring(offsetAt(range.start), offsetAt(range.end)) : text,
+        offsetAt,
+        positionAt,
+        lineAt: (line) => {
+            const end = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : text.length;
+            return { text: text.substring(lineStarts[line], end) };
+        },
+        getWordRangeAtPosition: (position, pattern = /[\w$]+/g) => {
+            const lineText = text.substring(lineStarts[position.line]).split('\n')[0];
+            const regex = new RegExp(pattern.source, 'g');
+            let match;
+            while ((match = regex.exec(lineText))) {
+                if (match.index <= position.character && position.character <= match.index + match[0].length) {
+                    return new Range(position.line, match.index, position.line, match.index + match[0].length);
+                }
+            }
+            return undefined;
+        }
+    };
+}
+
+class EventEmitter {
+    constructor() {
+        this.listeners = [];
+        this.event = (listener) => {
+            this.listeners.push(listener);
+            return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+        };
+    }
+    fire(data) {
+        this.listeners.forEach(listener => listener(data));
+    }
+    dispose() {
+        this.listeners = [];
+    }
+}
+
+class MarkdownString {
+    constructor(value = '') {
+        this.value = value;
+    }
+    appendMarkdown(value) {
+        this.value += value;
+        return this;
+    }
+    appendCodeblock(code, language = '') {
+        this.value += `\n\`\`\`${language}\n${code}\n\`\`\`\n`;
+        return this;
+    }
+}
+
+class Hover {
+    constructor(contents, range) {
+        this.contents = Array.isArray(contents) ? contents : [contents];
+        this.range = range;
+    }
+}
+
+class SignatureHelp {
+    constructor() {
+        this.signatures = [];
+        this.activeSignature = 0;
+        this.activeParameter = 0;
     }
 }
 
+class SignatureInformation {
+    constructor(label, documentation) {
+        this.label = label;
+        this.documentation = documentation;
+        this.parameters = [];
+    }
+}
+
+class ParameterInformation {
+    constructor(label, documentation) {
+        this.label = label;
+        this.documentation = documentation;
+    }
+}
+
+const CompletionItemKind = {
+    Text: 0, Method: 1, Function: 2, Constructor: 3, Field: 4, Variable: 5, Class: 6, Interface: 7,
+    Module: 8, Property: 9, Unit: 10, Value: 11, Enum: 12, Keyword: 13, Snippet: 14, Color: 15,
+    File: 16, Reference: 17, Folder: 18, EnumMember: 19, Constant: 20, Struct: 21, Event: 22,
+    Operator: 23, TypeParameter: 24
+};
+
+class CompletionItem {
+    constructor(label, kind) {
+        this.label = label;
+        this.kind = kind;
+    }
+}
+
+class SnippetString {
+    constructor(value = '') {
+        this.value = value;
+    }
+}
+
+class TextEdit {
+    constructor(range, newText) {
+        this.range = range;
+        this.newText = newText;
+    }
+    static replace(range, newText) {
+        return new TextEdit(range, newText);
+    }
+    static insert(position, newText) {
+        return new TextEdit(new Range(position, position), newText);
+    }
+}
+
+const CodeActionKind = { QuickFix: { value: 'quickfix' }, Refactor: { value: 'refactor' } };
+
+const InlayHintKind = { Type: 1, Parameter: 2 };
+
+class InlayHint {
+    constructor(position, label, kind) {
+        this.position = position;
+        this.label = label;
+        this.kind = kind;
+    }
+}
+
+class CodeLens {
+    constructor(range, command) {
+        this.range = range;
+        this.command = command;
+    }
+}
+
+class RelativePattern {
+    constructor(base, pattern) {
+        this.base = base;
+        this.pattern = pattern;
+    }
+}
+
+const StatusBarAlignment = { Left: 1, Right: 2 };
+
+const ProgressLocation = { SourceControl: 1, Window: 10, Notification: 15 };
+
 class WorkspaceEdit {
     constructor() {
         this.edits = [];
@@ -42,21 +288,29 @@ class WorkspaceEdit {
 
 const workspace = {
     workspaceFolders: [],
+    textDocuments: [],
+    // The innermost folder containing the file, like in a multi-root workspace
     getWorkspaceFolder(uri) {
-        return this.workspaceFolders[0];
+        const contains = (folder) => !path.relative(folder.uri.fsPath, uri.fsPath).startsWith('..');
+        return this.workspaceFolders.filter(contains).sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
     },
     onDidRenameFiles: () => { return { dispose: () => { } } },
+    // Every setting has its default value
+    getConfiguration: () => ({ get: (key, defaultValue) => defaultValue }),
     openTextDocument: async (uri) => {
         const content = await fs.readFile(uri.fsPath, 'utf8');
-        return {
-            getText: () => content
-        };
+        return createTextDocument(uri, content);
+    },
+    asRelativePath: (uri) => {
+        const folder = workspace.workspaceFolders[0];
+        const fsPath = typeof uri === 'string' ? uri : uri.fsPath;
+        return folder ? path.relative(folder.uri.fsPath, fsPath) : fsPath;
     },
     findFiles: async (include, exclude) => {
         // Simple glob find using glob package or just finding all php files in workspace
         // For PoC, let's just use a hardcoded list or simple recursive search
         // We will assume the test script sets up the workspace folder
-        const root = workspace.workspaceFolders[0].uri.fsPath;
+        const root = include instanceof RelativePattern ? include.base.uri.fsPath : workspace.workspaceFolders[0].uri.fsPath;
 
         async function getFiles(dir) {
             const dirents = await fs.readdir(dir, { withFileTypes: true });
@@ -112,9 +366,38 @@ module.exports = {
     Uri,
     Position,
     Range,
+    Location,
+    SymbolKind,
+    SymbolInformation,
+    DocumentSymbol,
+    CallHierarchyItem,
+    CallHierarchyIncomingCall,
+    CallHierarchyOutgoingCall,
+    TypeHierarchyItem,
+    EventEmitter,
+    MarkdownString,
+    Hover,
+    SignatureHelp,
+    SignatureInformation,
+    ParameterInformation,
+    CompletionItemKind,
+    CompletionItem,
+    SnippetString,
+    TextEdit,
+    CodeActionKind,
+    InlayHintKind,
+    InlayHint,
+    CodeLens,
+    RelativePattern,
+    StatusBarAlignment,
+    ProgressLocation,
     WorkspaceEdit,
     workspace,
+    createTextDocument,
     window: {
-        showInformationMessage: () => { }
+        showInformationMessage: () => { },
+        setStatusBarMessage: () => ({ dispose: () => { } }),
+        createStatusBarItem: () => ({ text: '', show: () => { }, hide: () => { }, dispose: () => { } }),
+        withProgress: (options, task) => task({ report: () => { } }, { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => { } }) })
     }
 };
@@ -0,0 +1,49 @@
+const { loadSrc, createWorkspace, indexWorkspace, token, outputChannel, check, run } = require('./load-src');
+
+const { Indexer } = loadSrc('indexer');
+const { PhpWorkspaceSymbolProvider, matchSymbolName } = loadSrc('workspaceSymbolProvider');
+
+const same = (actual, expected) => JSON.stringify(actual) === JSON.stringify(expected);
+
+run(async () => {
+    check("Exact matches score highest", matchSymbolName('usercontroller', 'UserController') > matchSymbolName('User', 'UserController'));
+    check("Prefixes beat CamelCase abbreviations", matchSymbolName('User', 'UserController') > matchSymbolName('UsrCtl', 'UserController'));
+    check("CamelCase abbreviations beat substrings", matchSymbolName('UsrCtl', 'UserController') > matchSymbolName('Controller', 'UserController'));
+    check("Substrings beat fuzzy subsequences", matchSymbolName('Controller', 'UserController') > matchSymbolName('urcr', 'UserController'));
+    check("Humps can be skipped", matchSymbolName('UC', 'UserAdminController') !== null);
+    check("Non-matching queries", matchSymbolName('xyz', 'UserController') === null);
+
+    const root = await createWorkspace('workspace-symbols', {
+        'src/Http/UserController.php': `<?php
+namespace App\\Http;
+
+class UserController {
+    public function showProfile() {}
+}
+`,
+        'src/Admin/UserController.php': `<?php
+namespace App\\Admin;
+
+interface UserController {}
+`,
+        'src/helpers.php': `<?php
+namespace App\\Support;
+
+const USER_LIMIT = 10;
+
+function user_url() {}
+`
+    });
+    const indexer = new Indexer();
+    await indexWorkspace(indexer, root);
+    const provider = new PhpWorkspaceSymbolProvider(indexer, outputChannel);
+    const search = (query) => provider.provideWorkspaceSymbols(query, token).map(symbol => `${symbol.containerName}:${symbol.name}`);
+
+    const camel = search('UsrCtl');
+    check("Classes and interfaces by CamelCase, with their namespace", same(camel.sort(), ['App\\Admin:UserController', 'App\\Http:UserController']), camel);
+    check("Namespaced queries match namespace segments fuzzily", same(search('Htp\\UserCon'), ['App\\Http:UserController']));
+    check("`Class::method` queries", same(search('UserController::show'), ['App\\Http\\UserController:showProfile']));
+    check("Methods by name", same(search('showProfile'), ['App\\Http\\UserController:showProfile']));
+    check("Functions and constants", same(search('user_url'), ['App\\Support:user_url']) && same(search('USER_LIMIT'), ['App\\Support:USER_LIMIT']));
+    check("Empty queries return nothing", search('  ').length === 0);
+});